@@ -0,0 +1,61 @@
+// Sign mini app events with a local app key and post them to /api/webhook,
+// e.g. to store a notification token that points at the stand-in server.
+//
+// Usage:
+//   node scripts/miniapp-event.mjs keygen
+//     prints MINIAPP_WEBHOOK_APP_KEYS for the dev server and MINIAPP_APP_PRIVATE_KEY
+//   MINIAPP_APP_PRIVATE_KEY=<jwk> node scripts/miniapp-event.mjs <fid> <event> [notification url] [token] [webhook url]
+//     event is miniapp_added, miniapp_removed, notifications_enabled or notifications_disabled
+import { createPrivateKey, generateKeyPairSync, sign } from "node:crypto";
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === "keygen") {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const appKey = Buffer.from(publicKey.export({ format: "jwk" }).x, "base64url");
+  console.log(`MINIAPP_WEBHOOK_APP_KEYS=0x${appKey.toString("hex")}`);
+  console.log(
+    `MINIAPP_APP_PRIVATE_KEY='${JSON.stringify(privateKey.export({ format: "jwk" }))}'`,
+  );
+  process.exit(0);
+}
+
+const fid = Number(command);
+const [
+  event,
+  notificationUrl = "http://localhost:3010/notify",
+  token = `token-${fid}`,
+  webhookUrl = "http://localhost:3000/api/webhook",
+] = args;
+const privateJwk = process.env.MINIAPP_APP_PRIVATE_KEY;
+if (!Number.isInteger(fid) || !event || !privateJwk) {
+  console.error(
+    "Usage: MINIAPP_APP_PRIVATE_KEY=<jwk> node scripts/miniapp-event.mjs <fid> <event> [notification url] [token] [webhook url]",
+  );
+  process.exit(1);
+}
+
+const privateKey = createPrivateKey({ key: JSON.parse(privateJwk), format: "jwk" });
+const appKey = `0x${Buffer.from(JSON.parse(privateJwk).x, "base64url").toString("hex")}`;
+const withDetails = event === "miniapp_added" || event === "notifications_enabled";
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const header = encode({ fid, type: "app_key", key: appKey });
+const payload = encode(
+  withDetails
+    ? { event, notificationDetails: { url: notificationUrl, token } }
+    : { event },
+);
+const signature = sign(null, Buffer.from(`${header}.${payload}`), privateKey);
+
+const res = await fetch(webhookUrl, {
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify({
+    header,
+    payload,
+    signature: signature.toString("base64url"),
+  }),
+});
+
+console.log(res.status, await res.text());
@@ -0,0 +1,65 @@
+// A stand-in for a Farcaster client's notification server, for trying
+// /api/send-notification locally. Tokens decide the reply:
+//   invalid-*  reported as invalid
+//   limited-*  rate limited for the first two requests, then delivered
+//   anything else is delivered
+//
+// Usage:
+//   node scripts/notification-server.mjs [port] [--broken]
+//     --broken answers every request with a non-JSON 502
+import { createServer } from "node:http";
+
+const args = process.argv.slice(2);
+const port = Number(args.find((arg) => !arg.startsWith("--")) ?? 3010);
+const broken = args.includes("--broken");
+const attempts = new Map();
+
+const server = createServer((req, res) => {
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+    if (broken) {
+      res.writeHead(502, { "Content-Type": "text/html" });
+      res.end("<html><body>Bad gateway</body></html>");
+      return;
+    }
+
+    let request;
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end("Invalid JSON");
+      return;
+    }
+    const tokens = request.tokens ?? [];
+    if (tokens.length > 100) {
+      res.writeHead(400).end("At most 100 tokens per request");
+      return;
+    }
+
+    const result = { successfulTokens: [], invalidTokens: [], rateLimitedTokens: [] };
+    for (const token of tokens) {
+      const attempt = (attempts.get(token) ?? 0) + 1;
+      attempts.set(token, attempt);
+      if (token.startsWith("invalid-")) result.invalidTokens.push(token);
+      else if (token.startsWith("limited-") && attempt <= 2)
+        result.rateLimitedTokens.push(token);
+      else result.successfulTokens.push(token);
+    }
+
+    console.log(
+      `${request.notificationId}: "${request.title}" to ${tokens.length} tokens`,
+      `(${result.successfulTokens.length} sent, ${result.invalidTokens.length} invalid, ${result.rateLimitedTokens.length} rate limited)`,
+    );
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ result }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Notification stand-in listening on http://localhost:${port}/notify`);
+});
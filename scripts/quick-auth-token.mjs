@@ -0,0 +1,45 @@
+// Issue Quick Auth tokens signed by a local key, for calling session routes
+// on a dev server without a Farcaster client.
+//
+// Usage:
+//   node scripts/quick-auth-token.mjs keygen
+//     prints QUICK_AUTH_JWKS for the dev server and QUICK_AUTH_PRIVATE_KEY
+//   QUICK_AUTH_PRIVATE_KEY=<jwk> node scripts/quick-auth-token.mjs <fid> [domain]
+//     prints a token for that fid, valid for an hour
+import { createPrivateKey, generateKeyPairSync, sign } from "node:crypto";
+
+const ORIGIN = "https://auth.farcaster.xyz";
+const KID = "local";
+const [command, domain = "localhost:3000"] = process.argv.slice(2);
+
+if (command === "keygen") {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const jwks = { keys: [{ ...publicKey.export({ format: "jwk" }), kid: KID }] };
+  console.log(`QUICK_AUTH_JWKS='${JSON.stringify(jwks)}'`);
+  console.log(
+    `QUICK_AUTH_PRIVATE_KEY='${JSON.stringify(privateKey.export({ format: "jwk" }))}'`,
+  );
+  process.exit(0);
+}
+
+const fid = Number(command);
+const privateJwk = process.env.QUICK_AUTH_PRIVATE_KEY;
+if (!Number.isInteger(fid) || !privateJwk) {
+  console.error(
+    "Usage: QUICK_AUTH_PRIVATE_KEY=<jwk> node scripts/quick-auth-token.mjs <fid> [domain]",
+  );
+  process.exit(1);
+}
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const now = Math.floor(Date.now() / 1000);
+const data = `${encode({ alg: "EdDSA", typ: "JWT", kid: KID })}.${encode({
+  sub: fid,
+  iss: ORIGIN,
+  aud: domain,
+  iat: now,
+  exp: now + 3600,
+})}`;
+const key = createPrivateKey({ key: JSON.parse(privateJwk), format: "jwk" });
+
+console.log(`${data}.${sign(null, Buffer.from(data), key).toString("base64url")}`);
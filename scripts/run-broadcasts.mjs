@@ -0,0 +1,32 @@
+// Trigger the scheduled broadcast cron route, once or on a timer, the way
+// Vercel Cron does in production.
+//
+// Usage:
+//   CRON_SECRET=<secret> node scripts/run-broadcasts.mjs [every minutes] [url]
+//
+// The secret must match the one the dev server was started with.
+const [every, url = "http://localhost:3000/api/broadcasts/run"] =
+  process.argv.slice(2);
+const secret = process.env.CRON_SECRET;
+const minutes = every === undefined ? 0 : Number(every);
+
+if (!secret || !(minutes >= 0)) {
+  console.error(
+    "Usage: CRON_SECRET=<secret> node scripts/run-broadcasts.mjs [every minutes] [url]",
+  );
+  process.exit(1);
+}
+
+const run = async () => {
+  try {
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    console.log(new Date().toISOString(), res.status, await res.text());
+  } catch (error) {
+    console.error(new Date().toISOString(), error.message);
+  }
+};
+
+await run();
+if (minutes > 0) setInterval(run, minutes * 60 * 1000);
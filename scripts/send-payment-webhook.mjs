@@ -0,0 +1,33 @@
+// Post a recorded Daimo Pay event to the payments webhook, authorized the way
+// Daimo Pay does it.
+//
+// Usage:
+//   DAIMO_PAY_WEBHOOK_TOKEN=local-token \
+//     node scripts/send-payment-webhook.mjs fixtures/daimo-pay/payment_completed.json [url]
+//
+// The token must match the one the dev server was started with.
+import { readFile } from "node:fs/promises";
+
+const [fixture, url = "http://localhost:3000/api/payments/webhook"] =
+  process.argv.slice(2);
+const token = process.env.DAIMO_PAY_WEBHOOK_TOKEN;
+
+if (!fixture || !token) {
+  console.error(
+    "Usage: DAIMO_PAY_WEBHOOK_TOKEN=<token> node scripts/send-payment-webhook.mjs <fixture.json> [url]",
+  );
+  process.exit(1);
+}
+
+const body = await readFile(fixture, "utf8");
+
+const res = await fetch(url, {
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    Authorization: `Basic ${token}`,
+  },
+  body,
+});
+
+console.log(res.status, await res.text());
@@ -0,0 +1,37 @@
+"use client";
+
+import { AdminGate } from "~/components/admin-gate";
+import { MatchingPoolsTable } from "~/components/matching-pools-table";
+import { useCampaignStats } from "~/hooks/use-campaign-stats";
+import { CAMPAIGNS, type Campaign } from "~/lib/campaigns";
+
+export default function MatchingAdminPage() {
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 space-y-8">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">Sponsor matching</h1>
+        <p className="text-muted-foreground">
+          What each sponsor owes for the donations matched so far
+        </p>
+      </div>
+
+      <AdminGate>
+        {CAMPAIGNS.map((campaign) => (
+          <CampaignMatching key={campaign.slug} campaign={campaign} />
+        ))}
+      </AdminGate>
+    </div>
+  );
+}
+
+function CampaignMatching({ campaign }: { campaign: Campaign }) {
+  const { stats, error } = useCampaignStats(campaign.slug);
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold">{campaign.title}</h2>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {stats && <MatchingPoolsTable pools={stats.matchingPools} />}
+    </section>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import Link from "next/link";
+import { AdminDashboard } from "~/components/admin-dashboard";
+import { AdminGate } from "~/components/admin-gate";
+
+export default function AdminPage() {
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6 space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">Creator admin</h1>
+        <p className="text-muted-foreground">
+          Manage the campaign without editing code.{" "}
+          <Link href="/admin/matching" className="underline">
+            Sponsor matching
+          </Link>
+        </p>
+      </div>
+
+      <AdminGate>
+        <AdminDashboard />
+      </AdminGate>
+    </div>
+  );
+}
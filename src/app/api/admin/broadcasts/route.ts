@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  cancelBroadcast,
+  createBroadcast,
+  listCampaignBroadcasts,
+} from "~/lib/broadcast-store";
+import { getNextBroadcastTime, type ScheduledBroadcast } from "~/lib/broadcasts";
+import { loadCampaign } from "~/lib/campaign-settings";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import { NOTIFICATION_CATEGORIES } from "~/lib/notification-preferences";
+
+export const dynamic = "force-dynamic";
+
+const triggerSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("at"), at: z.number().int().positive() }),
+  z.object({ kind: z.literal("weekly"), startsAt: z.number().int().positive() }),
+  z.object({ kind: z.literal("goal_reached") }),
+  z.object({
+    kind: z.literal("before_deadline"),
+    hours: z.number().int().min(1).max(24 * 14),
+  }),
+]);
+
+const broadcastSchema = z.object({
+  campaign: z.string(),
+  // Longer than the notification limits, since variables are filled in later
+  title: z.string().trim().min(1).max(64),
+  body: z.string().trim().min(1).max(256),
+  path: z.string().startsWith("/").default("/"),
+  category: z.enum(NOTIFICATION_CATEGORIES).default("milestones"),
+  trigger: triggerSchema,
+});
+
+/**
+ * A campaign's broadcasts with their delivery reports, newest first
+ */
+export const GET = withCreatorSession(async (request) => {
+  const campaign = await loadCampaign(
+    request.nextUrl.searchParams.get("campaign") ?? "",
+  );
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    const broadcasts: ScheduledBroadcast[] = (
+      await listCampaignBroadcasts(campaign.slug)
+    ).map((broadcast) => ({
+      ...broadcast,
+      nextAt: getNextBroadcastTime(broadcast, campaign),
+    }));
+    return NextResponse.json({ broadcasts });
+  } catch (error) {
+    console.error("Failed to load broadcasts", error);
+    return NextResponse.json(
+      { error: "Failed to load broadcasts" },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Schedule a broadcast to everyone with notifications enabled
+ */
+export const POST = withCreatorSession(async (request, session) => {
+  const parsed = broadcastSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid broadcast", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const campaign = await loadCampaign(parsed.data.campaign);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  if (parsed.data.trigger.kind === "before_deadline" && !campaign.deadline) {
+    return NextResponse.json(
+      { error: "Campaign has no deadline" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const broadcast = await createBroadcast({
+      ...parsed.data,
+      campaign: campaign.slug,
+      createdBy: session.fid,
+    });
+    return NextResponse.json(broadcast, { status: 201 });
+  } catch (error) {
+    console.error("Failed to schedule broadcast", error);
+    return NextResponse.json(
+      { error: "Failed to schedule broadcast" },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Cancel a scheduled broadcast; deliveries already made stay in its report
+ */
+export const DELETE = withCreatorSession(async (request) => {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    const broadcast = await cancelBroadcast(id);
+    if (!broadcast) {
+      return NextResponse.json({ error: "Broadcast not found" }, { status: 404 });
+    }
+    return NextResponse.json(broadcast);
+  } catch (error) {
+    console.error("Failed to cancel broadcast", error);
+    return NextResponse.json(
+      { error: "Failed to cancel broadcast" },
+      { status: 500 },
+    );
+  }
+});
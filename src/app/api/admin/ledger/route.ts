@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import type { Hex } from "viem";
+import { z } from "zod";
+import { getCampaign } from "~/lib/campaigns";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import { recordDisbursement, voidDisbursement } from "~/lib/ledger-store";
+
+export const dynamic = "force-dynamic";
+
+const ledgerEntrySchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("disbursement"),
+    campaign: z.string(),
+    amountUsd: z.number().positive(),
+    paidAt: z.string().date(),
+    payee: z.string().trim().min(1).max(120),
+    purpose: z.string().trim().min(1).max(500),
+    receiptUrl: z
+      .string()
+      .url()
+      .regex(/^https?:\/\//, "Use an http(s) link")
+      .optional(),
+    chainId: z.number().int().positive().optional(),
+    txHash: z
+      .string()
+      .regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash")
+      .optional(),
+  }),
+  z.object({
+    kind: z.literal("void"),
+    campaign: z.string(),
+    voids: z.string(),
+    reason: z.string().trim().min(1).max(500),
+  }),
+]);
+
+/**
+ * Append to a campaign's ledger. Entries can't be edited or deleted, so a
+ * mistake is corrected by voiding it. The creator's FID is recorded with
+ * every entry.
+ */
+export const POST = withCreatorSession(async (request, session) => {
+  const parsed = ledgerEntrySchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid ledger entry", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const campaign = getCampaign(parsed.data.campaign);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    let entry;
+    if (parsed.data.kind === "void") {
+      const { voids, reason } = parsed.data;
+      entry = await voidDisbursement(campaign, {
+        voids,
+        reason,
+        recordedBy: session.fid,
+      });
+      if (!entry) {
+        return NextResponse.json(
+          { error: "Disbursement not found or already voided" },
+          { status: 409 },
+        );
+      }
+    } else {
+      const { kind: _kind, campaign: _campaign, txHash, ...rest } = parsed.data;
+      entry = await recordDisbursement(campaign, {
+        ...rest,
+        ...(txHash && { txHash: txHash as Hex }),
+        recordedBy: session.fid,
+      });
+    }
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to record ledger entry", error);
+    return NextResponse.json(
+      { error: "Failed to record ledger entry" },
+      { status: 500 },
+    );
+  }
+});
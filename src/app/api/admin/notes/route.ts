@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getCampaign } from "~/lib/campaigns";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import { getPayment, setNoteHidden } from "~/lib/payment-store";
+
+export const dynamic = "force-dynamic";
+
+const noteSchema = z.object({
+  campaign: z.string(),
+  paymentId: z.string().regex(/^\d{1,80}$/),
+  hidden: z.boolean(),
+});
+
+/**
+ * Hide a donor's note from the donor wall, or show it again. The note stays
+ * on the payment, so creators still see it in /admin.
+ */
+export const PUT = withCreatorSession(async (request) => {
+  const parsed = noteSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { paymentId, hidden } = parsed.data;
+  const campaign = getCampaign(parsed.data.campaign);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    const payment = await getPayment(paymentId);
+    if (payment?.campaign !== campaign.slug || !payment.note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+    await setNoteHidden(campaign.slug, paymentId, hidden);
+    return NextResponse.json({ paymentId, hidden });
+  } catch (error) {
+    console.error("Failed to update donor note", error);
+    return NextResponse.json(
+      { error: "Failed to update donor note" },
+      { status: 500 },
+    );
+  }
+});
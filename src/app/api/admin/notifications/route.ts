@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import { appUrl } from "~/lib/frame-metadata";
+import { NOTIFICATION_CATEGORIES } from "~/lib/notification-preferences";
+import { sendNotifications } from "~/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+const notificationSchema = z.object({
+  title: z.string().trim().min(1).max(32),
+  body: z.string().trim().min(1).max(128),
+  /** Page opened from the notification, e.g. /campaign/lensenia */
+  path: z.string().startsWith("/").default("/"),
+  category: z.enum(NOTIFICATION_CATEGORIES).default("updates"),
+});
+
+/**
+ * Send a notification to everyone who enabled them
+ */
+export const POST = withCreatorSession(async (request) => {
+  const parsed = notificationSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid notification", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { title, body, path, category } = parsed.data;
+  const notificationId = `broadcast-${randomUUID()}`;
+
+  try {
+    const { results } = await sendNotifications("all", {
+      notificationId,
+      category,
+      title,
+      body,
+      targetUrl: `${appUrl}${path}`,
+    });
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Failed to send notifications", error);
+    return NextResponse.json(
+      { error: "Failed to send notifications" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { isCreatorFid, withSession } from "~/lib/farcaster-auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Whether the signed-in user may use /admin
+ */
+export const GET = withSession(async (_request, session) =>
+  NextResponse.json({ fid: session.fid, isCreator: isCreatorFid(session.fid) }),
+);
@@ -0,0 +1,127 @@
+import { randomUUID } from "crypto";
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+import { isAddress, type Address } from "viem";
+import { z } from "zod";
+import {
+  getCampaignSettings,
+  updateCampaignSettings,
+} from "~/lib/campaign-settings";
+import { getCampaignFromParams } from "~/lib/campaigns";
+import { CURRENCY_CODE_PATTERN } from "~/lib/currency";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+
+export const dynamic = "force-dynamic";
+
+const matchingPoolSchema = z
+  .object({
+    // New pools get an id when saved
+    id: z.string().min(1).max(64).optional(),
+    sponsor: z.string().trim().min(1).max(80),
+    sponsorUrl: z
+      .string()
+      .url()
+      .regex(/^https?:\/\//, "Use an http(s) link")
+      .optional(),
+    ratio: z.number().positive().max(100),
+    capUsd: z.number().positive(),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+  })
+  .refine(
+    (pool) => Date.parse(pool.startsAt) < Date.parse(pool.endsAt),
+    "A pool must end after it starts",
+  );
+
+// null restores the value from src/lib/campaigns.ts
+const settingsSchema = z.object({
+  goal: z.number().positive().nullable().optional(),
+  recipient: z
+    .string()
+    .refine((value) => isAddress(value), "Invalid address")
+    .nullable()
+    .optional(),
+  presetAmounts: z
+    .array(z.number().positive())
+    .min(1)
+    .max(8)
+    .nullable()
+    .optional(),
+  // Local currency units per US dollar, e.g. { COP: 4000 }
+  exchangeRates: z
+    .record(z.string().regex(CURRENCY_CODE_PATTERN), z.number().positive())
+    .refine((rates) => Object.keys(rates).length <= 8, "At most 8 currencies")
+    .nullable()
+    .optional(),
+  matchingPools: z.array(matchingPoolSchema).max(10).nullable().optional(),
+});
+
+export const GET = withCreatorSession(async (request) => {
+  const campaign = getCampaignFromParams(request.nextUrl.searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({
+      defaults: {
+        goal: campaign.goal,
+        recipient: campaign.recipient,
+        presetAmounts: campaign.presetAmounts,
+        exchangeRates: campaign.exchangeRates ?? {},
+        matchingPools: campaign.matchingPools,
+      },
+      settings: await getCampaignSettings(campaign.slug),
+    });
+  } catch (error) {
+    console.error("Failed to load campaign settings", error);
+    return NextResponse.json(
+      { error: "Failed to load campaign settings" },
+      { status: 500 },
+    );
+  }
+});
+
+export const PUT = withCreatorSession(async (request) => {
+  const campaign = getCampaignFromParams(request.nextUrl.searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  const parsed = settingsSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid settings", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { recipient, matchingPools, ...rest } = parsed.data;
+    const settings = await updateCampaignSettings(campaign.slug, {
+      ...rest,
+      ...(recipient !== undefined && {
+        recipient: recipient as Address | null,
+      }),
+      ...(matchingPools !== undefined && {
+        matchingPools:
+          matchingPools?.map((pool) => ({
+            ...pool,
+            id: pool.id ?? randomUUID(),
+          })) ?? null,
+      }),
+    });
+    // Campaign pages are cached, so show the new settings right away
+    revalidatePath("/");
+    revalidatePath(`/campaign/${campaign.slug}`);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Failed to save campaign settings", error);
+    return NextResponse.json(
+      { error: "Failed to save campaign settings" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getCampaignStats } from "~/lib/admin-stats";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import { syncDonationsIfStale } from "~/lib/donation-indexer";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+
+export const dynamic = "force-dynamic";
+
+export const GET = withCreatorSession(async (request) => {
+  const campaign = await loadCampaignFromParams(request.nextUrl.searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    await syncDonationsIfStale(campaign);
+    return NextResponse.json(await getCampaignStats(campaign));
+  } catch (error) {
+    console.error("Failed to load campaign stats", error);
+    return NextResponse.json(
+      { error: "Failed to load campaign stats" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  claimBroadcastOccurrence,
+  finishBroadcast,
+  listScheduledBroadcasts,
+  recordBroadcastDelivery,
+  releaseBroadcastOccurrence,
+} from "~/lib/broadcast-store";
+import {
+  getBroadcastVariables,
+  getDueOccurrence,
+  isBroadcastFinished,
+  renderBroadcastText,
+  type BroadcastDelivery,
+} from "~/lib/broadcasts";
+import { loadCampaign } from "~/lib/campaign-settings";
+import {
+  getIndexedDonationProgress,
+  syncDonationsIfStale,
+} from "~/lib/donation-indexer";
+import type { DonationProgress } from "~/lib/donations";
+import { appUrl } from "~/lib/frame-metadata";
+import { sendNotifications } from "~/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Send scheduled broadcasts that are due. Run by Vercel Cron, which sends
+ * CRON_SECRET as a bearer token, or locally with `pnpm broadcasts:run`.
+ * Each occurrence is claimed before sending, so it goes out once even when
+ * runs overlap. An occurrence that reached nobody is released for the next run.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const now = Date.now();
+    const broadcasts = await listScheduledBroadcasts();
+    const progressByCampaign = new Map<string, DonationProgress>();
+    const sent: (BroadcastDelivery & { broadcast: string })[] = [];
+
+    for (const broadcast of broadcasts) {
+      const campaign = await loadCampaign(broadcast.campaign);
+      if (!campaign) continue;
+      if (isBroadcastFinished(broadcast, campaign, now)) {
+        await finishBroadcast(broadcast);
+        continue;
+      }
+
+      let progress = progressByCampaign.get(campaign.slug);
+      if (!progress) {
+        await syncDonationsIfStale(campaign);
+        progress = await getIndexedDonationProgress(campaign);
+        progressByCampaign.set(campaign.slug, progress);
+      }
+
+      const occurrence = getDueOccurrence(broadcast, campaign, progress, now);
+      if (!occurrence) continue;
+      if (!(await claimBroadcastOccurrence(broadcast.id, occurrence))) continue;
+
+      const variables = getBroadcastVariables(campaign, progress);
+      const message = {
+        // Stable per occurrence, so clients also drop an accidental repeat
+        notificationId: `broadcast-${broadcast.id}-${occurrence}`,
+        title: renderBroadcastText(broadcast.title, variables),
+        body: renderBroadcastText(broadcast.body, variables),
+      };
+
+      let report;
+      try {
+        report = await sendNotifications("all", {
+          ...message,
+          category: broadcast.category,
+          targetUrl: `${appUrl}${broadcast.path}`,
+        });
+      } catch (error) {
+        console.error("Failed to send broadcast", broadcast.id, error);
+        await releaseBroadcastOccurrence(broadcast.id, occurrence);
+        continue;
+      }
+      // Failed batches are counted rather than thrown, so when nobody got it
+      // (e.g. the client's notification server is down) try again next run
+      const outcomes = Object.keys(report.results);
+      if (
+        outcomes.length > 0 &&
+        outcomes.every((result) => result === "error" || result === "rate_limited")
+      ) {
+        console.error("Broadcast reached nobody", broadcast.id, report.results);
+        await releaseBroadcastOccurrence(broadcast.id, occurrence);
+        continue;
+      }
+
+      const delivery: BroadcastDelivery = {
+        ...message,
+        occurrence,
+        sentAt: report.sentAt,
+        results: report.results,
+      };
+      const finished = isBroadcastFinished(
+        { ...broadcast, deliveries: [...broadcast.deliveries, delivery] },
+        campaign,
+        now,
+      );
+      await recordBroadcastDelivery(broadcast.id, delivery, finished);
+      sent.push({ ...delivery, broadcast: broadcast.id });
+    }
+
+    return NextResponse.json({ scheduled: broadcasts.length, sent });
+  } catch (error) {
+    console.error("Failed to run broadcasts", error);
+    return NextResponse.json(
+      { error: "Failed to run broadcasts" },
+      { status: 500 },
+    );
+  }
+}
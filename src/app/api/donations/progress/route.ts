@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import {
+  getIndexedDonationProgress,
+  syncDonationsIfStale,
+} from "~/lib/donation-indexer";
+
+export const dynamic = "force-dynamic";
+
+// Donors refreshing right after paying get a tighter sync window
+const FRESH_MAX_AGE_MS = 3000;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const campaign = await loadCampaignFromParams(searchParams);
+  const fresh = searchParams.get("fresh") === "1";
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    await syncDonationsIfStale(campaign, fresh ? FRESH_MAX_AGE_MS : undefined);
+    return NextResponse.json(await getIndexedDonationProgress(campaign));
+  } catch (error) {
+    console.error("Failed to load donation progress", error);
+    return NextResponse.json(
+      { error: "Failed to load donation progress" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import {
+  DONATION_CURSOR_PATTERN,
+  listDonations,
+  syncDonationsIfStale,
+} from "~/lib/donation-indexer";
+import { getCampaignDonationPrivacy } from "~/lib/payment-store";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const campaign = await loadCampaignFromParams(searchParams);
+  const cursor = searchParams.get("cursor") || undefined;
+  const limit = Number(searchParams.get("limit") || 20);
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  if (cursor && !DONATION_CURSOR_PATTERN.test(cursor)) {
+    return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_LIMIT}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await syncDonationsIfStale(campaign);
+    const [page, privacy] = await Promise.all([
+      listDonations(campaign, { cursor, limit }),
+      getCampaignDonationPrivacy(campaign.slug),
+    ]);
+    return NextResponse.json({
+      ...page,
+      // The transfer stays public onchain, but we don't list who sent it
+      donations: page.donations.map((donation) =>
+        privacy[donation.txHash.toLowerCase()]?.visibility === "anonymous"
+          ? { ...donation, donor: null }
+          : donation,
+      ),
+    });
+  } catch (error) {
+    console.error("Failed to list donations", error);
+    return NextResponse.json(
+      { error: "Failed to list donations" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import { getAllDonations, syncDonationsIfStale } from "~/lib/donation-indexer";
+import { groupDonationsByDonor, resolveDonorIdentities } from "~/lib/donors";
+import { getCampaignDonationPrivacy } from "~/lib/payment-store";
+
+export const dynamic = "force-dynamic";
+
+const MAX_LIMIT = 100;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const campaign = await loadCampaignFromParams(searchParams);
+  const limit = Number(searchParams.get("limit") || 30);
+
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_LIMIT}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await syncDonationsIfStale(campaign);
+    const [records, privacy] = await Promise.all([
+      getAllDonations(campaign),
+      getCampaignDonationPrivacy(campaign.slug),
+    ]);
+    const donors = groupDonationsByDonor(records, campaign, privacy).slice(
+      0,
+      limit,
+    );
+    return NextResponse.json({ donors: await resolveDonorIdentities(donors) });
+  } catch (error) {
+    console.error("Failed to load donors", error);
+    return NextResponse.json(
+      { error: "Failed to load donors" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import { getCampaignExchangeRates } from "~/lib/exchange-rate-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const campaign = await loadCampaignFromParams(request.nextUrl.searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json(await getCampaignExchangeRates(campaign));
+  } catch (error) {
+    console.error("Failed to load exchange rates", error);
+    return NextResponse.json(
+      { error: "Failed to load exchange rates" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { withSession } from "~/lib/farcaster-auth";
 
-export async function GET(request: NextRequest) {
+// Storage tokens are only handed to signed-in users
+export const GET = withSession(async () => {
   try {
     const endpoint = `${process.env.GET_UPLOAD_JWT_ENDPOINT}?project_id=${process.env.NEXT_PUBLIC_VIBES_ENGINEERING_PROJECT_ID}`;
     const response = await fetch(endpoint, {
@@ -21,4 +23,4 @@ export async function GET(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
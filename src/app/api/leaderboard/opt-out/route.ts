@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withSession } from "~/lib/farcaster-auth";
+import {
+  getLeaderboardOptOuts,
+  setLeaderboardOptOut,
+} from "~/lib/leaderboard-store";
+
+export const dynamic = "force-dynamic";
+
+const optOutSchema = z.object({ optedOut: z.boolean() });
+
+/**
+ * Whether the signed-in user is hidden from the leaderboards
+ */
+export const GET = withSession(async (_request, session) => {
+  try {
+    const optOuts = await getLeaderboardOptOuts();
+    return NextResponse.json({ optedOut: optOuts.has(session.fid) });
+  } catch (error) {
+    console.error("Failed to load leaderboard opt-out", error);
+    return NextResponse.json(
+      { error: "Failed to load leaderboard opt-out" },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Hide the signed-in user from, or show them on, every leaderboard
+ */
+export const PUT = withSession(async (request, session) => {
+  const parsed = optOutSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid opt-out", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await setLeaderboardOptOut(session.fid, parsed.data.optedOut);
+    return NextResponse.json({ optedOut: parsed.data.optedOut });
+  } catch (error) {
+    console.error("Failed to save leaderboard opt-out", error);
+    return NextResponse.json(
+      { error: "Failed to save leaderboard opt-out" },
+      { status: 500 },
+    );
+  }
+});
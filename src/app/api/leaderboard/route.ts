@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { loadCampaignFromParams } from "~/lib/campaign-settings";
+import { syncDonationsIfStale } from "~/lib/donation-indexer";
+import { LEADERBOARD_PERIODS, type LeaderboardPeriod } from "~/lib/leaderboard";
+import { getLeaderboard } from "~/lib/leaderboard-store";
+
+export const dynamic = "force-dynamic";
+
+const leaderboardQuerySchema = z.object({
+  kind: z.enum(["donors", "referrers"]).default("donors"),
+  period: z
+    .enum(LEADERBOARD_PERIODS as [string, ...string[]])
+    .default("all"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const campaign = await loadCampaignFromParams(searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  const parsed = leaderboardQuerySchema.safeParse({
+    kind: searchParams.get("kind") ?? undefined,
+    period: searchParams.get("period") ?? undefined,
+    limit: searchParams.get("limit") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid leaderboard query", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await syncDonationsIfStale(campaign);
+    const entries = await getLeaderboard(campaign, {
+      ...parsed.data,
+      period: parsed.data.period as LeaderboardPeriod,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Failed to load leaderboard", error);
+    return NextResponse.json(
+      { error: "Failed to load leaderboard" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCampaignFromParams } from "~/lib/campaigns";
+import { summarizeLedger } from "~/lib/ledger";
+import { getLedgerEntries } from "~/lib/ledger-store";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The public ledger of a campaign: every entry in the order it was
+ * recorded, plus disbursements with their voids attached
+ */
+export async function GET(request: NextRequest) {
+  const campaign = getCampaignFromParams(request.nextUrl.searchParams);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    const entries = await getLedgerEntries(campaign);
+    return NextResponse.json({ entries, ...summarizeLedger(entries) });
+  } catch (error) {
+    console.error("Failed to load ledger", error);
+    return NextResponse.json(
+      { error: "Failed to load ledger" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withSession } from "~/lib/farcaster-auth";
+import {
+  getNotificationDetails,
+  getNotificationPreferences,
+  setNotificationPreferences,
+} from "~/lib/notifications";
+import { NOTIFICATION_CATEGORIES } from "~/lib/notification-preferences";
+
+export const dynamic = "force-dynamic";
+
+// Preferences belong to the signed-in user, never to a fid sent by the client
+const preferencesSchema = z
+  .object(
+    Object.fromEntries(
+      NOTIFICATION_CATEGORIES.map((category) => [category, z.boolean()]),
+    ) as Record<(typeof NOTIFICATION_CATEGORIES)[number], z.ZodBoolean>,
+  )
+  .partial()
+  .strict();
+
+/**
+ * The user's categories, and whether their client has notifications enabled
+ * for the app at all
+ */
+export const GET = withSession(async (_request, { fid }) => {
+  try {
+    const [preferences, details] = await Promise.all([
+      getNotificationPreferences(fid),
+      getNotificationDetails(fid),
+    ]);
+    return NextResponse.json({ preferences, enabled: details !== null });
+  } catch (error) {
+    console.error("Failed to load notification preferences", error);
+    return NextResponse.json(
+      { error: "Failed to load notification preferences" },
+      { status: 500 },
+    );
+  }
+});
+
+/**
+ * Turn categories on or off; categories left out keep their setting
+ */
+export const PUT = withSession(async (request, { fid }) => {
+  const parsed = preferencesSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid preferences", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const preferences = await setNotificationPreferences(fid, parsed.data);
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error("Failed to save notification preferences", error);
+    return NextResponse.json(
+      { error: "Failed to save notification preferences" },
+      { status: 500 },
+    );
+  }
+});
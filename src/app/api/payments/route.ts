@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCampaign } from "~/lib/campaigns";
+import { withSession } from "~/lib/farcaster-auth";
+import { getPayment, savePayment } from "~/lib/payment-store";
+import {
+  DONOR_VISIBILITIES,
+  MAX_NOTE_LENGTH,
+  PAYMENT_STATUSES,
+  toPublicPayment,
+  type PaymentRecord,
+} from "~/lib/payments";
+
+export const dynamic = "force-dynamic";
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/);
+const txHash = z.string().regex(/^0x[0-9a-fA-F]{64}$/);
+const decimal = z.string().regex(/^\d+(\.\d+)?$/);
+
+// Payment records reported by the donor's browser. The payer's FID comes
+// from the session, so a `fid` in the body is dropped.
+const paymentRecordSchema = z.object({
+  paymentId: z.string().regex(/^\d{1,80}$/),
+  status: z.enum(PAYMENT_STATUSES as [string, ...string[]]),
+  campaign: z.string().max(100).optional(),
+  referrerFid: z.number().int().positive().optional(),
+  visibility: z.enum(DONOR_VISIBILITIES as [string, ...string[]]).optional(),
+  note: z
+    .object({
+      text: z.string().trim().min(1).max(MAX_NOTE_LENGTH),
+      isPublic: z.boolean(),
+    })
+    .optional(),
+  payerAddress: z.string().max(100).nullable(),
+  source: z
+    .object({
+      chainId: z.number().int(),
+      tokenAddress: z.string().max(100),
+      tokenSymbol: z.string().max(20),
+      amount: decimal,
+      txHash: z.string().max(100).nullable(),
+    })
+    .nullable(),
+  destination: z.object({
+    chainId: z.number().int(),
+    address,
+    tokenAddress: address,
+    tokenSymbol: z.string().max(20),
+    amount: decimal,
+    txHash: txHash.nullable(),
+  }),
+  amountUsd: decimal,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  completedAt: z.number().optional(),
+});
+
+/**
+ * Save a payment as the donor's browser saw it. Anyone can call this, so the
+ * record is stored unverified and only the session's FID is attached.
+ */
+export const POST = withSession(
+  async (request: NextRequest, session) => {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const parsed = paymentRecordSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid payment record", issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+    if (parsed.data.campaign && !getCampaign(parsed.data.campaign)) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 },
+      );
+    }
+
+    try {
+      // Browser reports are never trusted as confirmation
+      const payment = await savePayment({
+        ...(parsed.data as Omit<PaymentRecord, "fid" | "verified">),
+        fid: session?.fid,
+        verified: false,
+      });
+      // Anyone can post a known payment id, so answer with the public view
+      return NextResponse.json({ payment: toPublicPayment(payment) });
+    } catch (error) {
+      console.error("Failed to save payment", error);
+      return NextResponse.json(
+        { error: "Failed to save payment" },
+        { status: 500 },
+      );
+    }
+  },
+  { optional: true },
+);
+
+export async function GET(request: NextRequest) {
+  const paymentId = request.nextUrl.searchParams.get("id");
+  if (!paymentId || !/^\d{1,80}$/.test(paymentId)) {
+    return NextResponse.json({ error: "Missing payment id" }, { status: 400 });
+  }
+
+  try {
+    const payment = await getPayment(paymentId);
+    if (!payment) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+    return NextResponse.json({ payment: toPublicPayment(payment) });
+  } catch (error) {
+    console.error("Failed to load payment", error);
+    return NextResponse.json(
+      { error: "Failed to load payment" },
+      { status: 500 },
+    );
+  }
+}
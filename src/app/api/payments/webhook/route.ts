@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  appendPaymentEvent,
+  claimWebhookEvent,
+  releaseWebhookEvent,
+  savePayment,
+} from "~/lib/payment-store";
+import {
+  getEventStatus,
+  toPaymentRecord,
+  type DaimoPaymentEvent,
+} from "~/lib/payments";
+import { fulfillPledges } from "~/lib/pledges";
+import { verifyWebhookAuthorization } from "~/lib/webhook-auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Daimo Pay lifecycle events. Each delivery carries the webhook's token,
+ * DAIMO_PAY_WEBHOOK_TOKEN, and is processed once per payment id and event type.
+ */
+export async function POST(request: NextRequest) {
+  const token = process.env.DAIMO_PAY_WEBHOOK_TOKEN;
+  if (!token) {
+    console.error("DAIMO_PAY_WEBHOOK_TOKEN is not configured");
+    return NextResponse.json(
+      { error: "Webhook is not configured" },
+      { status: 500 },
+    );
+  }
+
+  if (!verifyWebhookAuthorization(request.headers.get("authorization"), token)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let event: DaimoPaymentEvent & { isTestEvent?: boolean };
+  try {
+    event = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const status = getEventStatus(event?.type);
+  if (!status || !event.paymentId || !event.payment?.destination) {
+    return NextResponse.json({ error: "Unsupported event" }, { status: 400 });
+  }
+  if (event.isTestEvent) {
+    return NextResponse.json({ received: true, test: true });
+  }
+
+  // Nothing was claimed if this fails, so there is nothing to release
+  let claimed: boolean;
+  try {
+    claimed = await claimWebhookEvent(event.paymentId, event.type);
+  } catch (error) {
+    console.error("Failed to claim payment webhook event", error);
+    return NextResponse.json(
+      { error: "Failed to process event" },
+      { status: 500 },
+    );
+  }
+  if (!claimed) {
+    return NextResponse.json({ received: true, duplicate: true });
+  }
+
+  try {
+    const payment = await savePayment(
+      toPaymentRecord(event, { verified: true }),
+    );
+    await appendPaymentEvent(event.paymentId, {
+      status,
+      txHash: event.txHash,
+      receivedAt: Date.now(),
+    });
+    await fulfillPledges(payment).catch((error) =>
+      console.error("Failed to fulfill pledges", error),
+    );
+    return NextResponse.json({ received: true, status: payment.status });
+  } catch (error) {
+    console.error("Failed to process payment webhook", error);
+    await releaseWebhookEvent(event.paymentId, event.type).catch((err) =>
+      console.error("Failed to release webhook event", err),
+    );
+    return NextResponse.json(
+      { error: "Failed to process event" },
+      { status: 500 },
+    );
+  }
+}
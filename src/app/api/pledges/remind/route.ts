@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  findCampaignAsset,
+  getCampaign,
+  localizeCampaign,
+} from "~/lib/campaigns";
+import { appUrl } from "~/lib/frame-metadata";
+import { createTranslator, formatUsd } from "~/lib/i18n";
+import { sendMiniAppNotification } from "~/lib/notifications";
+import {
+  getDuePledges,
+  getPledgeDonatePath,
+  markPledgeReminded,
+} from "~/lib/pledges";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Remind donors whose pledges are due. Run by Vercel Cron, which sends
+ * CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const pledges = await getDuePledges();
+    const results: Record<string, number> = {};
+
+    for (const pledge of pledges) {
+      const campaign = getCampaign(pledge.campaign);
+      if (!campaign) continue;
+      // Reminders go out in the campaign's language
+      const { locale } = campaign;
+      const t = createTranslator(locale);
+      const [chainId, address] = pledge.asset.split(":");
+      const asset = findCampaignAsset(campaign, Number(chainId), address);
+      const amount = asset?.isStablecoin
+        ? formatUsd(Number(pledge.amount), locale)
+        : `${pledge.amount} ${asset?.symbol ?? ""}`.trim();
+
+      const result = await sendMiniAppNotification({
+        fid: pledge.fid,
+        notificationId: `pledge-${pledge.id}-${pledge.nextDueAt}`,
+        category: "pledges",
+        title: t("pledge.reminder.title"),
+        body: t(`pledge.reminder.body.${pledge.cadence}`, {
+          amount,
+          campaign: localizeCampaign(campaign, locale).title,
+        }),
+        targetUrl: `${appUrl}${getPledgeDonatePath(pledge)}`,
+      });
+      results[result] = (results[result] || 0) + 1;
+
+      // Retry on the next run only when the notification could go through later
+      if (result !== "rate_limited" && result !== "error") {
+        await markPledgeReminded(pledge);
+      }
+    }
+
+    return NextResponse.json({ due: pledges.length, results });
+  } catch (error) {
+    console.error("Failed to send pledge reminders", error);
+    return NextResponse.json(
+      { error: "Failed to send pledge reminders" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getAssetKey, getCampaign } from "~/lib/campaigns";
+import { DEFAULT_AMOUNT_LIMITS, validateDonationAmount } from "~/lib/donation-amount";
+import { withSession } from "~/lib/farcaster-auth";
+import { getPayment } from "~/lib/payment-store";
+import {
+  cancelPledge,
+  createPledge,
+  listPledges,
+  PLEDGE_CADENCES,
+} from "~/lib/pledges";
+
+export const dynamic = "force-dynamic";
+
+// Pledges belong to the signed-in user, never to a fid sent by the client
+const createPledgeSchema = z.object({
+  campaign: z.string(),
+  asset: z.string(),
+  amount: z.string(),
+  cadence: z.enum(PLEDGE_CADENCES as [string, ...string[]]),
+  /** Donation made together with the pledge, covering the first period */
+  paymentId: z.string().regex(/^\d{1,80}$/).optional(),
+});
+
+export const GET = withSession(async (_request, { fid }) => {
+  try {
+    return NextResponse.json({ pledges: await listPledges(fid) });
+  } catch (error) {
+    console.error("Failed to load pledges", error);
+    return NextResponse.json(
+      { error: "Failed to load pledges" },
+      { status: 500 },
+    );
+  }
+});
+
+export const POST = withSession(async (request: NextRequest, { fid }) => {
+  const parsed = createPledgeSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid pledge", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { amount, cadence, paymentId } = parsed.data;
+  const campaign = getCampaign(parsed.data.campaign);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+  const asset = campaign.assets.find(
+    (option) => getAssetKey(option) === parsed.data.asset.toLowerCase(),
+  );
+  if (!asset) {
+    return NextResponse.json(
+      { error: "Campaign does not accept this asset" },
+      { status: 400 },
+    );
+  }
+  const validation = validateDonationAmount(amount, {
+    ...DEFAULT_AMOUNT_LIMITS,
+    ...asset.limits,
+    decimals: asset.decimals,
+  });
+  if (!validation.isValid) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  try {
+    // Only the user's own completed donation to this campaign covers a
+    // period; createPledge checks it is confirmed and matches the pledge
+    const payment = paymentId ? await getPayment(paymentId) : null;
+    if (paymentId) {
+      if (
+        payment?.status !== "completed" ||
+        payment.fid !== fid ||
+        payment.campaign !== campaign.slug
+      ) {
+        return NextResponse.json(
+          { error: "Payment not found for this pledge" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const pledge = await createPledge({
+      fid,
+      campaign,
+      asset,
+      amount: validation.normalized!,
+      cadence: cadence as (typeof PLEDGE_CADENCES)[number],
+      initialPayment: payment ?? undefined,
+    });
+    return NextResponse.json({ pledge }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create pledge", error);
+    return NextResponse.json(
+      { error: "Failed to create pledge" },
+      { status: 500 },
+    );
+  }
+});
+
+export const DELETE = withSession(async (request: NextRequest, { fid }) => {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    if (!(await cancelPledge(id, fid))) {
+      return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
+    }
+    return NextResponse.json({ cancelled: true });
+  } catch (error) {
+    console.error("Failed to cancel pledge", error);
+    return NextResponse.json(
+      { error: "Failed to cancel pledge" },
+      { status: 500 },
+    );
+  }
+});
@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import { appUrl } from "~/lib/frame-metadata";
+import { NOTIFICATION_CATEGORIES } from "~/lib/notification-preferences";
+import { sendNotifications } from "~/lib/notifications";
+
+export const dynamic = "force-dynamic";
+
+const sendNotificationSchema = z.object({
+  title: z.string().trim().min(1).max(32),
+  body: z.string().trim().min(1).max(128),
+  /** A path such as /campaign/lensenia, or a full URL on this app's domain */
+  targetUrl: z
+    .string()
+    .default("/")
+    .transform((url) => (url.startsWith("/") ? `${appUrl}${url}` : url))
+    .refine(
+      (url) => URL.canParse(url) && new URL(url).host === new URL(appUrl).host,
+      { message: "Target URL must be on the app's domain" },
+    ),
+  /** Users who turned the category off are skipped */
+  category: z.enum(NOTIFICATION_CATEGORIES),
+  /** "all" for everyone with notifications enabled, or a list of FIDs */
+  fids: z.union([
+    z.literal("all"),
+    z.array(z.number().int().positive()).min(1).max(10000),
+  ]),
+  /** Reusing an id makes clients drop the notification as a repeat */
+  notificationId: z.string().trim().min(1).max(128).optional(),
+});
+
+/**
+ * Send a notification with our stored tokens and report the result per FID
+ */
+export const POST = withCreatorSession(async (request) => {
+  const parsed = sendNotificationSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid notification", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { fids, notificationId, ...message } = parsed.data;
+
+  try {
+    const report = await sendNotifications(fids, {
+      ...message,
+      notificationId: notificationId ?? `send-${randomUUID()}`,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Failed to send notifications", error);
+    return NextResponse.json(
+      { error: "Failed to send notifications" },
+      { status: 500 },
+    );
+  }
+});
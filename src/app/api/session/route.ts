@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { withSession } from "~/lib/farcaster-auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The signed-in user, verified from their Quick Auth token
+ */
+export const GET = withSession(async (_request, session) =>
+  NextResponse.json(session),
+);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getCampaign } from "~/lib/campaigns";
+import { withCreatorSession } from "~/lib/farcaster-auth";
+import {
+  createProjectUpdate,
+  listProjectUpdates,
+  notifyProjectUpdate,
+} from "~/lib/project-update-store";
+import { MAX_UPDATE_PHOTOS } from "~/lib/project-updates";
+
+export const dynamic = "force-dynamic";
+
+const createUpdateSchema = z.object({
+  campaign: z.string(),
+  title: z.string().trim().min(1).max(80),
+  body: z.string().trim().min(1).max(2000),
+  photos: z.array(z.string().url()).max(MAX_UPDATE_PHOTOS).default([]),
+  /** Also send a mini app notification to everyone who enabled them */
+  notify: z.boolean().default(false),
+});
+
+export async function GET(request: NextRequest) {
+  const slug = request.nextUrl.searchParams.get("campaign");
+  const campaign = slug ? getCampaign(slug) : undefined;
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({ updates: await listProjectUpdates(campaign) });
+  } catch (error) {
+    console.error("Failed to load updates", error);
+    return NextResponse.json(
+      { error: "Failed to load updates" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Post an update. Only creators signed in with Quick Auth may post.
+ */
+export const POST = withCreatorSession(async (request) => {
+  const parsed = createUpdateSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid update", issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+
+  const { title, body, photos, notify } = parsed.data;
+  const campaign = getCampaign(parsed.data.campaign);
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  try {
+    const update = await createProjectUpdate(campaign, { title, body, photos });
+    const notifications = notify
+      ? await notifyProjectUpdate(campaign, update).catch((error) => {
+          console.error("Failed to send update notifications", error);
+          return null;
+        })
+      : undefined;
+    return NextResponse.json({ update, notifications }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create update", error);
+    return NextResponse.json(
+      { error: "Failed to create update" },
+      { status: 500 },
+    );
+  }
+});
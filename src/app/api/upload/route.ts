@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { withSession } from "~/lib/farcaster-auth";
 import { createSupabaseClientWithToken } from "~/lib/supabase";
 
-export async function POST(request: NextRequest) {
+export const POST = withSession(async (request: NextRequest) => {
   // Parse multipart form data using built-in formData()
   const formData = await request.formData();
   const fileField = formData.get("file");
@@ -15,7 +16,9 @@ export async function POST(request: NextRequest) {
   const fileData = fileField;
 
   // Fetch JWT token from backend
-  const jwtResponse = await fetch(new URL("/api/get-jwt", request.url));
+  const jwtResponse = await fetch(new URL("/api/get-jwt", request.url), {
+    headers: { authorization: request.headers.get("authorization")! },
+  });
   if (!jwtResponse.ok) {
     return NextResponse.json(
       { success: false, error: "Failed to fetch JWT token" },
@@ -50,4 +53,4 @@ export async function POST(request: NextRequest) {
     success: true,
     publicUrl: publicUrlData.publicUrl,
   });
-}
+});
@@ -1,18 +1,93 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  applyMiniAppEvent,
+  createNeynarAppKeyVerifier,
+  createTrustedAppKeyVerifier,
+  getTrustedAppKeys,
+  verifyMiniAppEvent,
+} from "~/lib/miniapp-events";
 
+export const dynamic = "force-dynamic";
+
+/**
+ * Pass a verified event on to the Vibes Engineering notification backend,
+ * when one is configured. Its reply is logged but never fails the webhook,
+ * since the event is already stored.
+ */
+async function forwardEvent(body: string, contentType: string | null) {
+  const endpoint = process.env.VIBES_ENGINEERING_NOTIFICATION_BACKEND_ENDPOINT;
+  if (!endpoint) return;
+
+  try {
+    const res = await fetch(
+      `${endpoint}?project_id=${process.env.NEXT_PUBLIC_VIBES_ENGINEERING_PROJECT_ID}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": contentType || "application/json" },
+        body,
+      },
+    );
+    if (!res.ok) {
+      console.error(
+        "Notification backend rejected event",
+        res.status,
+        (await res.text()).slice(0, 200),
+      );
+    }
+  } catch (error) {
+    console.error("Failed to forward event to notification backend", error);
+  }
+}
+
+/**
+ * Events from Farcaster clients: miniapp_added, miniapp_removed,
+ * notifications_enabled and notifications_disabled. They are sent server to
+ * server, so there is no Quick Auth session; each event is signed by the
+ * user's app key instead, which Neynar confirms belongs to the user.
+ * MINIAPP_WEBHOOK_APP_KEYS replaces that check with a fixed list of keys.
+ */
 export async function POST(request: NextRequest) {
+  const trustedKeys = getTrustedAppKeys();
+  const apiKey = process.env.NEYNAR_API_KEY;
+  const verifyAppKey =
+    trustedKeys.length > 0
+      ? createTrustedAppKeyVerifier(trustedKeys)
+      : apiKey && createNeynarAppKeyVerifier(apiKey);
+  if (!verifyAppKey) {
+    console.error("NEYNAR_API_KEY is not configured");
+    return NextResponse.json(
+      { error: "Webhook is not configured" },
+      { status: 500 },
+    );
+  }
+
+  // Verify against the exact bytes received
   const body = await request.text();
-  console.log("/webhook POST", body);
+  let result;
+  try {
+    result = await verifyMiniAppEvent(body, verifyAppKey);
+  } catch (error) {
+    console.error("Failed to verify mini app event", error);
+    return NextResponse.json(
+      { error: "Failed to verify event" },
+      { status: 502 },
+    );
+  }
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
 
-  const notificationBackendEndpoint = `${process.env.VIBES_ENGINEERING_NOTIFICATION_BACKEND_ENDPOINT}?project_id=${process.env.NEXT_PUBLIC_VIBES_ENGINEERING_PROJECT_ID}`;
+  try {
+    await applyMiniAppEvent(result.fid, result.event);
+  } catch (error) {
+    // A 5xx makes the Farcaster client retry the event
+    console.error("Failed to record mini app event", error);
+    return NextResponse.json(
+      { error: "Failed to record event" },
+      { status: 500 },
+    );
+  }
 
-  const res = await fetch(notificationBackendEndpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": request.headers.get("content-type") || "application/json",
-    },
-    body,
-  });
-  const data = await res.json();
-  return NextResponse.json(data, { status: res.status });
+  await forwardEvent(body, request.headers.get("content-type"));
+  return NextResponse.json({ received: true, event: result.event.event });
 }
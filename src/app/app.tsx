@@ -1,12 +1,13 @@
 "use client";
 
 import { DonationApp } from "~/components/DonationApp";
+import type { Campaign } from "~/lib/campaigns";
 
-export default function App() {
+export default function App({ campaign }: { campaign: Campaign }) {
   return (
     <div className="mx-auto py-8 px-4 min-h-screen flex flex-col items-center justify-center">
       {/* TEMPLATE_CONTENT_START - Replace content below */}
-      <DonationApp />
+      <DonationApp campaign={campaign} />
       {/* TEMPLATE_CONTENT_END */}
     </div>
   );
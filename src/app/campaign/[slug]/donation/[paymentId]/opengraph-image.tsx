@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation";
+import { loadCampaign } from "~/lib/campaign-settings";
+import { localizeCampaign } from "~/lib/campaigns";
+import { getIndexedDonationProgress } from "~/lib/donation-indexer";
+import { getDonationShare } from "~/lib/donation-share";
+import { OG_IMAGE_SIZE, renderDonationImage } from "~/lib/og-image";
+
+export const alt = "Donation";
+export const contentType = "image/png";
+export const size = OG_IMAGE_SIZE;
+export const revalidate = 60;
+
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ slug: string; paymentId: string }>;
+}) {
+  const { slug, paymentId } = await params;
+  const campaign = await loadCampaign(slug);
+  if (!campaign) notFound();
+
+  const [share, progress] = await Promise.all([
+    getDonationShare(campaign, paymentId),
+    // Read what is indexed; a sync would make the image slow to load
+    getIndexedDonationProgress(campaign).catch((error) => {
+      console.error("Failed to load donation progress", error);
+      return null;
+    }),
+  ]);
+
+  return renderDonationImage({
+    campaignTitle: localizeCampaign(campaign, campaign.locale).title,
+    donorName: share.donorName,
+    avatarUrl: share.avatarUrl || campaign.coverImageUrl,
+    amountLabel: share.amountLabel,
+    progress,
+    locale: campaign.locale,
+  });
+}
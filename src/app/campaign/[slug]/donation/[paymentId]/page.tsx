@@ -0,0 +1,64 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import App from "~/app/app";
+import { loadCampaign } from "~/lib/campaign-settings";
+import {
+  getCampaign,
+  getDonationSharePath,
+  localizeCampaign,
+} from "~/lib/campaigns";
+import { getDonationShare } from "~/lib/donation-share";
+import { buildCampaignMetadata } from "~/lib/frame-metadata";
+import { translate } from "~/lib/i18n";
+import { getDonorVisibility } from "~/lib/payments";
+
+// Short so a donation shared right after paying soon shows its details
+export const revalidate = 60;
+
+type DonationSharePageProps = {
+  params: Promise<{ slug: string; paymentId: string }>;
+};
+
+export async function generateMetadata({
+  params,
+}: DonationSharePageProps): Promise<Metadata> {
+  const { slug, paymentId } = await params;
+  const campaign = getCampaign(slug);
+  if (!campaign) return {};
+
+  const share = await getDonationShare(campaign, paymentId);
+  // The fid in the link would tie the donation to the donor's profile
+  const referrerFid =
+    share.payment && getDonorVisibility(share.payment) === "farcaster"
+      ? share.payment.fid
+      : undefined;
+  const { title } = localizeCampaign(campaign, campaign.locale);
+  return buildCampaignMetadata(
+    campaign,
+    getDonationSharePath(campaign.slug, paymentId),
+    {
+      title: share.amountLabel
+        ? translate(campaign.locale, "share.donatedTo", {
+            donor: share.donorName ?? translate(campaign.locale, "share.someone"),
+            amount: share.amountLabel,
+            campaign: title,
+          })
+        : title,
+      // Opening the embed takes people straight to the donation form, and
+      // donations made from there count toward the sharer's referrals
+      launchPath: referrerFid
+        ? `/campaign/${campaign.slug}?ref=${referrerFid}`
+        : `/campaign/${campaign.slug}`,
+    },
+  );
+}
+
+export default async function DonationSharePage({
+  params,
+}: DonationSharePageProps) {
+  const { slug } = await params;
+  const campaign = await loadCampaign(slug);
+  if (!campaign) notFound();
+
+  return <App campaign={campaign} />;
+}
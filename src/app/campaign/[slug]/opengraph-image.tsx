@@ -0,0 +1,29 @@
+import { notFound } from "next/navigation";
+import { CAMPAIGNS, getCampaign, localizeCampaign } from "~/lib/campaigns";
+import { OG_IMAGE_SIZE, renderCampaignImage } from "~/lib/og-image";
+
+export const alt = "Campaign";
+export const contentType = "image/png";
+export const size = OG_IMAGE_SIZE;
+
+export function generateStaticParams() {
+  return CAMPAIGNS.map((campaign) => ({ slug: campaign.slug }));
+}
+
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const campaign = getCampaign(slug);
+  if (!campaign) notFound();
+
+  const { title, description } = localizeCampaign(campaign, campaign.locale);
+  return renderCampaignImage({
+    title,
+    description,
+    imageUrl: campaign.coverImageUrl,
+    locale: campaign.locale,
+  });
+}
@@ -0,0 +1,33 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import App from "~/app/app";
+import { loadCampaign } from "~/lib/campaign-settings";
+import { CAMPAIGNS, getCampaign } from "~/lib/campaigns";
+import { buildCampaignMetadata } from "~/lib/frame-metadata";
+
+export const revalidate = 300;
+
+type CampaignPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export function generateStaticParams() {
+  return CAMPAIGNS.map((campaign) => ({ slug: campaign.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: CampaignPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const campaign = getCampaign(slug);
+  if (!campaign) return {};
+  return buildCampaignMetadata(campaign, `/campaign/${campaign.slug}`);
+}
+
+export default async function CampaignPage({ params }: CampaignPageProps) {
+  const { slug } = await params;
+  const campaign = await loadCampaign(slug);
+  if (!campaign) notFound();
+
+  return <App campaign={campaign} />;
+}
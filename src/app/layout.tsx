@@ -1,10 +1,13 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import "~/app/globals.css";
 import type { Metadata } from "next";
+import { Suspense } from "react";
 import { ThemeProviderClient } from "~/components/providers/theme-provider-client";
 import { PROJECT_TITLE, PROJECT_DESCRIPTION } from "~/lib/constants";
+import { DEFAULT_LOCALE } from "~/lib/i18n";
 import { Providers } from "~/app/providers";
 import { MinimalNavbar } from "~/components/minimal-navbar";
+import { NotificationSourceBanner } from "~/components/notification-source-banner";
 import { SidebarInset, SidebarProvider } from "~/components/ui/sidebar";
 
 const appUrl =
@@ -17,8 +20,10 @@ export const metadata: Metadata = {
   metadataBase: new URL(appUrl),
   alternates: {
     canonical: "/",
+    // Same pages; ?lang= picks the language before the browser's preference
     languages: {
-      "en-US": "/en-US",
+      en: "/?lang=en",
+      es: "/?lang=es",
     },
   },
 };
@@ -29,7 +34,7 @@ export default async function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={DEFAULT_LOCALE} suppressHydrationWarning>
       <head />
       <body>
         <ThemeProviderClient>
@@ -37,6 +42,10 @@ export default async function RootLayout({
             <SidebarProvider>
               <SidebarInset>
                 <MinimalNavbar />
+                {/* Reads the query string, which cached pages only know in the browser */}
+                <Suspense fallback={null}>
+                  <NotificationSourceBanner />
+                </Suspense>
                 <div className="flex flex-1 flex-col gap-4 lg:px-4 lg:py-10">
                   {children}
                 </div>
@@ -0,0 +1,26 @@
+import { Metadata } from "next";
+import { NotificationPreferences } from "~/components/notification-preferences";
+import { createTranslator } from "~/lib/i18n";
+import { getRequestLocale } from "~/lib/i18n-server";
+import { isNotificationCategory } from "~/lib/notification-preferences";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return { title: t("notifications.title") };
+}
+
+export default async function NotificationsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ unsubscribe?: string }>;
+}) {
+  const { unsubscribe } = await searchParams;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6">
+      <NotificationPreferences
+        unsubscribe={isNotificationCategory(unsubscribe) ? unsubscribe : undefined}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import dynamic from "next/dynamic";
 import { useEffect, useState } from "react";
 import posthog from "posthog-js";
 import { PostHogProvider as PHProvider } from "posthog-js/react";
+import { LocaleProvider } from "~/components/providers/locale-provider";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
 
 const WagmiProvider = dynamic(
@@ -60,8 +61,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
   }, [context?.user]); // Only runs when FID changes
 
   return (
-    <WagmiProvider>
-      <PostHogProvider>{children}</PostHogProvider>
-    </WagmiProvider>
+    <LocaleProvider>
+      <WagmiProvider>
+        <PostHogProvider>{children}</PostHogProvider>
+      </WagmiProvider>
+    </LocaleProvider>
   );
 }
@@ -0,0 +1,78 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Download } from "lucide-react";
+import { PrintButton } from "~/components/print-button";
+import { Button } from "~/components/ui/button";
+import { createTranslator } from "~/lib/i18n";
+import { getRequestLocale } from "~/lib/i18n-server";
+import { getReceipt, getReceiptRows, isReceiptPending } from "~/lib/receipts";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return { title: t("receipt.title"), robots: { index: false } };
+}
+
+export default async function ReceiptPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  if (!/^\d{1,80}$/.test(id)) notFound();
+  const locale = await getRequestLocale();
+  const t = createTranslator(locale);
+  const receipt = await getReceipt(id, locale);
+  if (!receipt) {
+    if (!(await isReceiptPending(id))) notFound();
+    return (
+      <div className="w-full max-w-2xl mx-auto p-6 space-y-2">
+        <h1 className="text-2xl font-bold">{t("receipt.title")}</h1>
+        <p className="text-muted-foreground">{t("receipt.pending")}</p>
+      </div>
+    );
+  }
+  const transactionLabel = t("receipt.rows.transaction");
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6 space-y-6 print:p-0">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">{t("receipt.title")}</h1>
+        <p className="text-muted-foreground">{receipt.campaign.title}</p>
+      </div>
+
+      <dl className="divide-y rounded-md border">
+        {getReceiptRows(receipt, locale).map(([label, value]) => (
+          <div key={label} className="grid grid-cols-3 gap-4 p-3 text-sm">
+            <dt className="font-medium">{label}</dt>
+            <dd className="col-span-2 break-all font-mono text-xs sm:text-sm">
+              {label === transactionLabel && receipt.txUrl ? (
+                <a
+                  href={receipt.txUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 underline"
+                >
+                  {value}
+                </a>
+              ) : (
+                value
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex gap-3 print:hidden">
+        <PrintButton className="flex-1" label={t("receipt.print")} />
+        <Button asChild className="flex-1">
+          <a href={`/receipts/${receipt.id}/pdf`} download>
+            <Download className="h-4 w-4" />
+            {t("receipt.downloadPdf")}
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestLocale } from "~/lib/i18n-server";
+import { getReceipt, renderReceiptPdf } from "~/lib/receipts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  if (!/^\d{1,80}$/.test(id)) {
+    return NextResponse.json({ error: "Invalid receipt id" }, { status: 400 });
+  }
+
+  try {
+    const locale = await getRequestLocale();
+    const receipt = await getReceipt(id, locale);
+    if (!receipt) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+    return new NextResponse(renderReceiptPdf(receipt, locale), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt-${id}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to render receipt", error);
+    return NextResponse.json(
+      { error: "Failed to render receipt" },
+      { status: 500 },
+    );
+  }
+}
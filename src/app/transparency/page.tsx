@@ -0,0 +1,181 @@
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ExternalLink, FileText } from "lucide-react";
+import { FundsChart } from "~/components/funds-chart";
+import { Badge } from "~/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { loadCampaign } from "~/lib/campaign-settings";
+import { DEFAULT_CAMPAIGN_SLUG, localizeCampaign } from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+import {
+  createTranslator,
+  formatDate,
+  formatUsd,
+  type Locale,
+} from "~/lib/i18n";
+import { getRequestLocale } from "~/lib/i18n-server";
+import type { LedgerDisbursement } from "~/lib/ledger";
+import { getTransparencyReport } from "~/lib/transparency";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return { title: t("transparency.title") };
+}
+
+// Ledger amounts always show their cents
+const formatAmount = (value: number, locale: Locale) =>
+  formatUsd(value, locale, { maximumFractionDigits: 2 });
+
+export default async function TransparencyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ campaign?: string }>;
+}) {
+  const { campaign: slug = DEFAULT_CAMPAIGN_SLUG } = await searchParams;
+  const [campaign, locale] = await Promise.all([
+    loadCampaign(slug),
+    getRequestLocale(),
+  ]);
+  if (!campaign) notFound();
+
+  const report = await getTransparencyReport(campaign);
+  const t = createTranslator(locale);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6 space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">{t("transparency.title")}</h1>
+        <p className="text-muted-foreground">
+          {localizeCampaign(campaign, locale).title}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          [t("transparency.raised"), report.raised],
+          [t("transparency.spent"), report.spent],
+          [t("transparency.remaining"), report.remaining],
+        ].map(([label, value]) => (
+          <Card key={label}>
+            <CardContent className="p-4">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="text-lg font-semibold">{formatAmount(Number(value), locale)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      {report.pledged > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("transparency.pledged", {
+            amount: formatAmount(report.pledged, locale),
+          })}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("transparency.overTime")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FundsChart series={report.series} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            {t("transparency.disbursements")}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.disbursements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {t("transparency.empty")}
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {report.disbursements.map((disbursement) => (
+                <DisbursementRow
+                  key={disbursement.id}
+                  disbursement={disbursement}
+                  locale={locale}
+                />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function DisbursementRow({
+  disbursement,
+  locale,
+}: {
+  disbursement: LedgerDisbursement;
+  locale: Locale;
+}) {
+  const t = createTranslator(locale);
+  const { chainId, txHash, voidedBy } = disbursement;
+  const explorerUrl = chainId
+    ? getChainById(chainId).blockExplorers?.default.url
+    : undefined;
+
+  return (
+    <li className="space-y-1 py-3 text-sm">
+      <div className="flex items-baseline justify-between gap-3">
+        <p className={`font-medium ${voidedBy ? "line-through" : ""}`}>
+          {disbursement.purpose}
+        </p>
+        <p className={`font-mono ${voidedBy ? "line-through" : ""}`}>
+          {formatAmount(disbursement.amountUsd, locale)}
+        </p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("transparency.paidTo", {
+          // paidAt is a calendar date, so don't let the time zone shift it
+          date: formatDate(disbursement.paidAt, locale, {
+            dateStyle: "long",
+            timeZone: "UTC",
+          }),
+          payee: disbursement.payee,
+        })}
+      </p>
+      <div className="flex flex-wrap gap-3 text-xs">
+        {disbursement.receiptUrl && (
+          <a
+            href={disbursement.receiptUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-600 underline"
+          >
+            <FileText className="h-3 w-3" />
+            {t("transparency.receipt")}
+          </a>
+        )}
+        {explorerUrl && txHash && (
+          <a
+            href={`${explorerUrl}/tx/${txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-600 underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            {t("transparency.transaction")}
+          </a>
+        )}
+      </div>
+      {voidedBy && (
+        <Badge variant="secondary">
+          {t("transparency.voidedOn", {
+            date: formatDate(voidedBy.recordedAt, locale, { dateStyle: "medium" }),
+            reason: voidedBy.reason,
+          })}
+        </Badge>
+      )}
+    </li>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
+import sdk from "@farcaster/miniapp-sdk";
 import { Card, CardHeader, CardTitle, CardContent } from "~/components/ui/card";
 import { createSupabaseClientWithToken } from "~/lib/supabase";
 
@@ -21,7 +22,9 @@ export default function BucketExplorer() {
   const [token, setToken] = useState<string | null>(null);
   const [tokenError, setTokenError] = useState<string | null>(null);
   const fetchToken = () => {
-    fetch("/api/get-jwt")
+    // Storage tokens need a Quick Auth session
+    sdk.quickAuth
+      .fetch("/api/get-jwt")
       .then((res) => {
         if (!res.ok) {
           throw new Error("Failed to fetch token");
@@ -1,126 +1,406 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useReducer, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AmountEquivalents,
+  LocalAmount,
+} from "~/components/amount-equivalents";
 import { DaimoPayTransferButton } from "~/components/daimo-pay-transfer-button";
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
 import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { DonationProgress } from "~/components/donation-progress";
+import { DonationSuccess } from "~/components/donation-success";
+import { DonorLeaderboard } from "~/components/donor-leaderboard";
+import {
+  DonorPrivacyFields,
+  getDonorNote,
+  initialDonorPrivacy,
+} from "~/components/donor-privacy-fields";
+import { DonorWall } from "~/components/donor-wall";
+import { ProjectUpdates } from "~/components/project-updates";
+import { useDonationProgress } from "~/hooks/use-donation-progress";
+import { useExchangeRates } from "~/hooks/use-exchange-rates";
+import { useI18n } from "~/hooks/use-i18n";
+import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import {
+  getAssetKey,
+  isCampaignClosed,
+  localizeCampaign,
+  type Campaign,
+  type CampaignAsset,
+} from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+import {
+  amountSelectionReducer,
+  DEFAULT_AMOUNT_LIMITS,
+  initialAmountSelection,
+  resolveSelectedAmount,
+} from "~/lib/donation-amount";
+import { getMatchedAmount } from "~/lib/matching";
+import type { PaymentRecord } from "~/lib/payments";
 
-const PRESET_AMOUNTS = [5, 10, 25, 50];
-const RECIPIENT_ADDRESS = "0x9c7218a253d1565fc5f2149ba51f0f55f0f27f07" as const;
+export function DonationApp({ campaign: baseCampaign }: { campaign: Campaign }) {
+  const { locale, t, formatUsd, dateLocale } = useI18n();
+  const campaign = useMemo(
+    () => localizeCampaign(baseCampaign, locale),
+    [baseCampaign, locale],
+  );
+  const [selection, dispatch] = useReducer(
+    amountSelectionReducer,
+    initialAmountSelection,
+  );
+  const [assetKey, setAssetKey] = useState(() =>
+    getAssetKey(campaign.assets[0]),
+  );
+  // The completed payment; kept until the donor chooses to give again
+  const [lastPayment, setLastPayment] = useState<PaymentRecord | null>(null);
+  const { context } = useMiniAppSdk();
+  const { progress, isLoading, refreshAfterPayment } = useDonationProgress(
+    campaign.slug,
+  );
+  const asset =
+    campaign.assets.find((a) => getAssetKey(a) === assetKey) ||
+    campaign.assets[0];
+  const amountLimits = useMemo(
+    () => ({
+      ...DEFAULT_AMOUNT_LIMITS,
+      ...asset.limits,
+      decimals: asset.decimals,
+      symbol: asset.isStablecoin ? undefined : asset.symbol,
+    }),
+    [asset],
+  );
+  const { amount: selectedAmount, validation } = resolveSelectedAmount(
+    selection,
+    amountLimits,
+    locale,
+  );
+  const isClosed = isCampaignClosed(campaign);
+  // Set when the page was opened from a pledge reminder
+  const [isPledgeReminder, setIsPledgeReminder] = useState(false);
+  // Donation share embeds link here with ?ref=<fid of the donor who shared>
+  const [referrerFid, setReferrerFid] = useState<number>();
+  const [privacy, setPrivacy] = useState(initialDonorPrivacy);
+  const exchangeRates = useExchangeRates(campaign);
+  // The campaign's first local currency until the donor picks another
+  const [localCurrency, setLocalCurrency] = useState<string>();
+  const currency = localCurrency ?? Object.keys(exchangeRates.rates)[0];
 
-export function DonationApp() {
-  const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
-  const [showThankYou, setShowThankYou] = useState(false);
+  useEffect(() => {
+    const ref = Number(new URLSearchParams(window.location.search).get("ref"));
+    if (Number.isInteger(ref) && ref > 0) setReferrerFid(ref);
+  }, []);
 
-  const handlePaymentCompleted = () => {
-    setShowThankYou(true);
-    setSelectedAmount(null);
-    // Auto-hide thank you message after 3 seconds
-    setTimeout(() => {
-      setShowThankYou(false);
-    }, 3000);
+  // Pledge reminders link here with ?pledge=&amount=&asset= to prefill the form
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const pledgedAsset = campaign.assets.find(
+      (a) => getAssetKey(a) === params.get("asset")?.toLowerCase(),
+    );
+    const pledgedAmount = params.get("amount");
+    if (!params.get("pledge") || !pledgedAsset || !pledgedAmount) return;
+
+    setAssetKey(getAssetKey(pledgedAsset));
+    dispatch({ type: "SET_CUSTOM", payload: pledgedAmount });
+    setIsPledgeReminder(true);
+  }, [campaign.assets]);
+
+  const { symbol } = asset;
+  // Matching pools are in USD, so only stablecoin donations show the match
+  const matchedAmount =
+    selectedAmount && asset.isStablecoin && progress
+      ? getMatchedAmount(Number(selectedAmount), progress.activeMatches)
+      : 0;
+  const presetAmounts = asset.presetAmounts ?? campaign.presetAmounts;
+  // Stablecoin amounts read as dollars, e.g. "$10 USDC"; others as "0.01 ETH"
+  const formatAmount = (amount: string | number) =>
+    asset.isStablecoin
+      ? `${formatUsd(Number(amount))} ${symbol}`
+      : `${amount} ${symbol}`;
+  /** e.g. "USDC on Base" */
+  const getAssetLabel = (option: CampaignAsset) =>
+    t("donation.assetLabel", {
+      symbol: option.symbol,
+      chain: getChainById(option.chainId).name,
+    });
+
+  const handlePaymentCompleted = (payment: PaymentRecord) => {
+    setLastPayment(payment);
+    dispatch({ type: "RESET" });
+    setPrivacy(initialDonorPrivacy);
+    refreshAfterPayment();
   };
 
   const handleAmountSelect = (amount: number) => {
-    setSelectedAmount(amount);
+    dispatch({ type: "SELECT_PRESET", payload: amount });
   };
 
-  if (showThankYou) {
+  const handleAssetChange = (key: string) => {
+    setAssetKey(key);
+    // Amounts mean different things in different tokens
+    dispatch({ type: "RESET" });
+  };
+
+  if (lastPayment) {
     return (
       <div className="w-full max-w-md mx-auto p-6 space-y-6">
-        <Card className="text-center border-green-200 bg-green-50">
-          <CardContent className="pt-6">
-            <div className="text-green-600 text-2xl font-semibold mb-2">
-              Thank You!
-            </div>
-            <p className="text-green-700">
-              Your donation has been sent successfully. Thank you for your support!
-            </p>
-          </CardContent>
-        </Card>
+        <DonationSuccess
+          campaign={campaign}
+          payment={lastPayment}
+          progress={progress}
+          isLoading={isLoading}
+          onDonateAgain={() => setLastPayment(null)}
+        />
       </div>
     );
   }
 
   return (
     <div className="w-full max-w-md mx-auto p-6 space-y-6">
+      {/* Campaign Header */}
+      <div className="flex flex-col items-center text-center gap-3">
+        <img
+          src={campaign.coverImageUrl}
+          alt={campaign.title}
+          className="h-20 w-20 rounded-full object-cover shadow"
+        />
+        <h1 className="text-2xl font-bold">{campaign.title}</h1>
+        <p className="text-sm text-muted-foreground">{campaign.description}</p>
+        {campaign.deadline && (
+          <p className="text-xs font-medium text-muted-foreground">
+            {isClosed
+              ? t("donation.ended")
+              : t("donation.endsIn", {
+                  time: formatDistanceToNow(new Date(campaign.deadline), {
+                    addSuffix: true,
+                    locale: dateLocale,
+                  }),
+                })}
+          </p>
+        )}
+      </div>
+
       <Card>
         <CardHeader className="text-center">
           <CardTitle className="text-2xl font-semibold">
-            Support with USDC
+            {t("donation.title", { symbol })}
           </CardTitle>
-          <p className="text-muted-foreground">
-            Choose an amount to donate
-          </p>
+          <p className="text-muted-foreground">{t("donation.subtitle")}</p>
         </CardHeader>
         <CardContent className="space-y-6">
+          {isPledgeReminder && (
+            <p className="rounded-md bg-blue-50 p-3 text-sm text-blue-800">
+              {t("donation.pledgeDue")}
+            </p>
+          )}
+
+          {/* Fundraising Progress */}
+          <DonationProgress progress={progress} isLoading={isLoading} />
+
+          {/* Token and Chain Choice */}
+          {campaign.assets.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="donation-asset">{t("donation.asset")}</Label>
+              <Select value={getAssetKey(asset)} onValueChange={handleAssetChange}>
+                <SelectTrigger id="donation-asset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {campaign.assets.map((option) => (
+                    <SelectItem key={getAssetKey(option)} value={getAssetKey(option)}>
+                      {getAssetLabel(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!asset.isStablecoin && (
+                <p className="text-xs text-muted-foreground">
+                  {t("donation.assetCountsOnConfirmation", { symbol: asset.symbol })}
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Preset Amount Buttons */}
           <div className="grid grid-cols-2 gap-3">
-            {PRESET_AMOUNTS.map((amount) => (
+            {presetAmounts.map((amount) => (
               <Button
                 key={amount}
-                variant={selectedAmount === amount ? "default" : "outline"}
+                variant={
+                  selection.kind === "preset" && selection.amount === amount
+                    ? "default"
+                    : "outline"
+                }
                 size="lg"
-                className="h-16 text-lg font-semibold"
+                className="h-16 flex-col gap-0 text-lg font-semibold"
                 onClick={() => handleAmountSelect(amount)}
               >
-                ${amount} USDC
+                {formatAmount(amount)}
+                {asset.isStablecoin && (
+                  <LocalAmount
+                    usd={amount}
+                    currency={currency}
+                    exchangeRates={exchangeRates}
+                    className="text-xs font-normal opacity-70"
+                  />
+                )}
               </Button>
             ))}
           </div>
 
+          {/* Custom Amount Input */}
+          <div className="space-y-2">
+            <Label htmlFor="custom-amount">{t("donation.customAmount")}</Label>
+            <div className="relative">
+              {asset.isStablecoin && (
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  $
+                </span>
+              )}
+              <Input
+                id="custom-amount"
+                inputMode="decimal"
+                autoComplete="off"
+                placeholder="0.00"
+                className={`${asset.isStablecoin ? "pl-7" : ""} pr-16 ${
+                  validation?.error ? "border-red-500" : ""
+                }`}
+                value={selection.kind === "custom" ? selection.input : ""}
+                onChange={(e) =>
+                  dispatch({ type: "SET_CUSTOM", payload: e.target.value })
+                }
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                {symbol}
+              </span>
+            </div>
+            {validation?.error && (
+              <p className="text-xs text-red-500">{validation.error}</p>
+            )}
+            {validation?.warning && (
+              <p className="text-xs text-amber-600">{validation.warning}</p>
+            )}
+          </div>
+
           {/* Recipient Address Display */}
           <div className="space-y-2">
-            <p className="text-sm font-medium">Recipient:</p>
+            <p className="text-sm font-medium">{t("donation.recipient")}</p>
             <div className="bg-muted p-3 rounded-md">
               <p className="text-sm font-mono break-all">
-                {RECIPIENT_ADDRESS}
+                {campaign.recipient}
               </p>
             </div>
           </div>
 
+          {/* Local Currency and Impact; dollar values are only known for stablecoins */}
+          {selectedAmount && asset.isStablecoin && (
+            <AmountEquivalents
+              usd={Number(selectedAmount)}
+              currency={currency}
+              onCurrencyChange={setLocalCurrency}
+              exchangeRates={exchangeRates}
+              impact={campaign.impact}
+            />
+          )}
+
+          {/* Sponsor Matching */}
+          {matchedAmount > 0 && selectedAmount && (
+            <div className="rounded-md bg-amber-50 p-3 text-sm text-amber-900">
+              <p className="font-semibold">
+                {t("donation.matchTotal", {
+                  amount: formatUsd(Number(selectedAmount)),
+                  total: formatUsd(Number(selectedAmount) + matchedAmount),
+                })}
+              </p>
+              <p className="text-xs">
+                {t("donation.matchedBy", {
+                  sponsors: (progress?.activeMatches ?? [])
+                    .map((match) => match.sponsor)
+                    .join(t("donation.sponsorSeparator")),
+                })}
+              </p>
+            </div>
+          )}
+
+          {/* Donor Privacy and Note */}
+          {selectedAmount && !isClosed && (
+            <DonorPrivacyFields value={privacy} onChange={setPrivacy} />
+          )}
+
           {/* Donation Button */}
-          {selectedAmount && (
+          {selectedAmount && !isClosed && (
             <div className="pt-4">
               <DaimoPayTransferButton
-                text={`Donate $${selectedAmount} USDC`}
-                toAddress={RECIPIENT_ADDRESS}
-                amount={selectedAmount.toString()}
+                text={t("donation.donate", { amount: formatAmount(selectedAmount) })}
+                toAddress={campaign.recipient}
+                toChainId={asset.chainId}
+                tokenAddress={asset.address}
+                amount={selectedAmount}
+                campaign={campaign.slug}
+                fid={context?.user.fid}
+                // Sharing your own donation doesn't make you your own referrer
+                referrerFid={
+                  referrerFid !== context?.user.fid ? referrerFid : undefined
+                }
+                visibility={privacy.visibility}
+                note={getDonorNote(privacy)}
+                persist
                 onPaymentCompleted={handlePaymentCompleted}
               />
             </div>
           )}
 
-          {!selectedAmount && (
+          {(!selectedAmount || isClosed) && (
             <div className="pt-4">
               <Button 
                 disabled 
                 size="lg" 
                 className="w-full"
               >
-                Select an amount to continue
+                {isClosed ? t("donation.closed") : t("donation.selectAmount")}
               </Button>
             </div>
           )}
         </CardContent>
       </Card>
-      
+
+      {/* Project Updates */}
+      <ProjectUpdates campaign={campaign} />
+
+      {/* Donor Wall */}
+      <DonorWall campaign={campaign} refreshKey={progress?.raised} />
+
+      {/* Leaderboard */}
+      <DonorLeaderboard campaign={campaign} refreshKey={progress?.raised} />
+
       {/* Project Reference Link */}
-      <Card className="border-muted">
-        <CardContent className="pt-6 text-center">
-          <p className="text-sm text-muted-foreground mb-3">
-            Learn more about this project
-          </p>
-          <a 
-            href="https://www.pasosdejesus.org/lensenia/"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-600 hover:text-blue-800 underline text-sm font-medium"
-          >
-            Visit Project Website
-          </a>
-        </CardContent>
-      </Card>
+      {campaign.externalUrl && (
+        <Card className="border-muted">
+          <CardContent className="pt-6 text-center">
+            <p className="text-sm text-muted-foreground mb-3">
+              {t("donation.learnMore")}
+            </p>
+            <a
+              href={campaign.externalUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800 underline text-sm font-medium"
+            >
+              {t("donation.visitWebsite")}
+            </a>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
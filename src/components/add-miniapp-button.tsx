@@ -1,5 +1,6 @@
 import { Button } from "~/components/ui/button";
 import { CircleCheckBig, Save } from "lucide-react";
+import { useI18n } from "~/hooks/use-i18n";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
 
 type AddMiniAppButtonProps = {
@@ -10,12 +11,13 @@ type AddMiniAppButtonProps = {
 };
 
 export function AddMiniappButton({
-  text = "Add Mini App",
-  textDone = "Saved",
+  text,
+  textDone,
   variant = "default",
   className,
 }: AddMiniAppButtonProps) {
   const { sdk, isMiniAppSaved } = useMiniAppSdk();
+  const { t } = useI18n();
 
   const onAddMiniApp = () => {
     sdk.actions.addMiniApp();
@@ -34,7 +36,9 @@ export function AddMiniappButton({
       ) : (
         <Save className="h-4 w-4 md:h-5 md:w-5" />
       )}
-      {isMiniAppSaved ? textDone : text}
+      {isMiniAppSaved
+        ? (textDone ?? t("miniApp.saved"))
+        : (text ?? t("miniApp.add"))}
     </Button>
   );
 }
@@ -0,0 +1,383 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { NotificationCategorySelect } from "~/components/admin-notification-form";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Calendar } from "~/components/ui/calendar";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import { useBroadcasts } from "~/hooks/use-broadcasts";
+import { useDonationProgress } from "~/hooks/use-donation-progress";
+import { fetchWithSession } from "~/hooks/use-session";
+import {
+  BROADCAST_TEMPLATES,
+  BROADCAST_VARIABLES,
+  getBroadcastVariables,
+  renderBroadcastText,
+  type BroadcastTrigger,
+  type BroadcastTriggerKind,
+  type ScheduledBroadcast,
+} from "~/lib/broadcasts";
+import { getCampaign } from "~/lib/campaigns";
+import type { NotificationCategory } from "~/lib/notification-preferences";
+
+const TRIGGER_LABELS: Record<BroadcastTriggerKind, string> = {
+  at: "Once, at a set time",
+  weekly: "Every week",
+  goal_reached: "When the goal is reached",
+  before_deadline: "Before the deadline",
+};
+
+const formatTime = (timestamp: number) => format(timestamp, "MMM d, yyyy HH:mm");
+
+/** Combine a calendar day with an "HH:mm" time, in the browser's time zone */
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date.getTime();
+};
+
+/** The trigger the form describes, or null while it is incomplete */
+function getTrigger(
+  kind: BroadcastTriggerKind,
+  time: number | undefined,
+  hours: number,
+): BroadcastTrigger | null {
+  switch (kind) {
+    case "at":
+      return time ? { kind, at: time } : null;
+    case "weekly":
+      return time ? { kind, startsAt: time } : null;
+    case "before_deadline":
+      return hours >= 1 ? { kind, hours: Math.round(hours) } : null;
+    case "goal_reached":
+      return { kind };
+  }
+}
+
+/**
+ * Schedule notification broadcasts from templates, and list past and
+ * upcoming ones with their delivery reports.
+ * The cron route /api/broadcasts/run sends them when due.
+ */
+export function AdminBroadcastScheduler({ campaign }: { campaign: string }) {
+  const { broadcasts, error, refresh } = useBroadcasts(campaign);
+
+  return (
+    <div className="space-y-6">
+      <BroadcastForm
+        campaign={campaign}
+        onSchedule={async (broadcast) => {
+          await fetchWithSession("/api/admin/broadcasts", {
+            method: "POST",
+            body: JSON.stringify({ ...broadcast, campaign }),
+          });
+          await refresh();
+        }}
+      />
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {broadcasts && broadcasts.length === 0 && (
+        <p className="text-sm text-muted-foreground">No broadcasts scheduled yet.</p>
+      )}
+      {broadcasts && broadcasts.length > 0 && (
+        <ul className="divide-y text-sm">
+          {broadcasts.map((broadcast) => (
+            <BroadcastItem
+              key={broadcast.id}
+              broadcast={broadcast}
+              onCancel={async () => {
+                await fetchWithSession(
+                  `/api/admin/broadcasts?id=${encodeURIComponent(broadcast.id)}`,
+                  { method: "DELETE" },
+                );
+                await refresh();
+              }}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function BroadcastForm({
+  campaign,
+  onSchedule,
+}: {
+  campaign: string;
+  onSchedule: (broadcast: {
+    title: string;
+    body: string;
+    path: string;
+    category: NotificationCategory;
+    trigger: BroadcastTrigger;
+  }) => Promise<unknown>;
+}) {
+  const { progress } = useDonationProgress(campaign);
+  const details = getCampaign(campaign);
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [category, setCategory] = useState<NotificationCategory>("milestones");
+  const [kind, setKind] = useState<BroadcastTriggerKind>("at");
+  const [day, setDay] = useState<Date | undefined>();
+  const [time, setTime] = useState("18:00");
+  const [hours, setHours] = useState("24");
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const applyTemplate = (id: string) => {
+    const template = BROADCAST_TEMPLATES.find((template) => template.id === id);
+    if (!template) return;
+    setTitle(template.title);
+    setBody(template.body);
+    setCategory(template.category);
+    // Without a deadline the "ends soon" template is sent at a set time instead
+    setKind(
+      template.trigger === "before_deadline" && !details?.deadline
+        ? "at"
+        : template.trigger,
+    );
+  };
+
+  const needsDay = kind === "at" || kind === "weekly";
+  const trigger = getTrigger(kind, day && atTime(day, time), Number(hours));
+  const variables =
+    details && progress ? getBroadcastVariables(details, progress) : null;
+
+  const handleSchedule = async () => {
+    if (!trigger) return;
+    setIsScheduling(true);
+    setMessage(null);
+    try {
+      await onSchedule({
+        title,
+        body,
+        path: `/campaign/${campaign}`,
+        category,
+        trigger,
+      });
+      setMessage("Broadcast scheduled");
+      setTitle("");
+      setBody("");
+      setDay(undefined);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to schedule");
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <Select onValueChange={applyTemplate}>
+          <SelectTrigger>
+            <SelectValue placeholder="Start from a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {BROADCAST_TEMPLATES.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="broadcast-title">Title</Label>
+        <Input
+          id="broadcast-title"
+          maxLength={64}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="broadcast-body">Message</Label>
+        <Textarea
+          id="broadcast-body"
+          maxLength={256}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Variables: {BROADCAST_VARIABLES.map((name) => `{${name}}`).join(" ")}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Category</Label>
+        <NotificationCategorySelect value={category} onChange={setCategory} />
+      </div>
+      <div className="space-y-2">
+        <Label>When</Label>
+        <Select
+          value={kind}
+          onValueChange={(value) => setKind(value as BroadcastTriggerKind)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TRIGGER_LABELS) as BroadcastTriggerKind[])
+              .filter((option) => option !== "before_deadline" || details?.deadline)
+              .map((option) => (
+                <SelectItem key={option} value={option}>
+                  {TRIGGER_LABELS[option]}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {needsDay && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>{kind === "weekly" ? "First on" : "Date"}</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-full justify-start font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {day ? format(day, "MMM d, yyyy") : "Pick a day"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={day}
+                  onSelect={setDay}
+                  disabled={{ before: new Date() }}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="broadcast-time">Time</Label>
+            <Input
+              id="broadcast-time"
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+      {kind === "before_deadline" && details?.deadline && (
+        <div className="space-y-2">
+          <Label htmlFor="broadcast-hours">Hours before the deadline</Label>
+          <Input
+            id="broadcast-hours"
+            type="number"
+            min="1"
+            max={24 * 14}
+            value={hours}
+            onChange={(e) => setHours(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            The campaign closes {formatTime(new Date(details.deadline).getTime())}.
+          </p>
+        </div>
+      )}
+
+      {variables && (title.trim() || body.trim()) && (
+        <div className="rounded-md bg-muted p-3 text-xs space-y-1">
+          <p className="text-muted-foreground">Preview with today&apos;s numbers</p>
+          <p className="font-semibold">
+            {renderBroadcastText(title, variables).slice(0, 32)}
+          </p>
+          <p>{renderBroadcastText(body, variables).slice(0, 128)}</p>
+        </div>
+      )}
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      <Button
+        className="w-full"
+        onClick={handleSchedule}
+        disabled={isScheduling || !title.trim() || !body.trim() || !trigger}
+      >
+        {isScheduling ? "Scheduling..." : "Schedule broadcast"}
+      </Button>
+    </div>
+  );
+}
+
+function BroadcastItem({
+  broadcast,
+  onCancel,
+}: {
+  broadcast: ScheduledBroadcast;
+  onCancel: () => Promise<unknown>;
+}) {
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await onCancel();
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <li className="space-y-2 py-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <p className="font-medium">{broadcast.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {TRIGGER_LABELS[broadcast.trigger.kind]}
+            {broadcast.nextAt !== null && ` · next ${formatTime(broadcast.nextAt)}`}
+          </p>
+        </div>
+        <Badge variant={broadcast.status === "scheduled" ? "default" : "secondary"}>
+          {broadcast.status}
+        </Badge>
+      </div>
+      {broadcast.deliveries.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {broadcast.deliveries.map((delivery) => (
+            <li key={delivery.occurrence} className="text-muted-foreground">
+              {formatTime(delivery.sentAt)}: {delivery.results.sent || 0} sent
+              {Object.entries(delivery.results)
+                .filter(([result]) => result !== "sent")
+                .map(([result, count]) => `, ${count} ${result.replace("_", " ")}`)
+                .join("")}
+            </li>
+          ))}
+        </ul>
+      )}
+      {broadcast.status === "scheduled" && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCancel}
+          disabled={isCancelling}
+        >
+          {isCancelling ? "Cancelling..." : "Cancel"}
+        </Button>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import { AdminBroadcastScheduler } from "~/components/admin-broadcast-scheduler";
+import { AdminNotificationForm } from "~/components/admin-notification-form";
+import { CampaignSettingsForm } from "~/components/campaign-settings-form";
+import { DonationProgress } from "~/components/donation-progress";
+import { LedgerEditor } from "~/components/ledger-editor";
+import { MatchingPoolsForm } from "~/components/matching-pools-form";
+import { MatchingPoolsTable } from "~/components/matching-pools-table";
+import { ProjectUpdateComposer } from "~/components/project-update-composer";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { useCampaignStats } from "~/hooks/use-campaign-stats";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { DonorNoteEntry } from "~/lib/admin-stats";
+import { CAMPAIGNS } from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+
+const formatUsd = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+/**
+ * Creator tools: donation stats, campaign settings and matching pools,
+ * updates, notifications, scheduled broadcasts and the disbursement ledger.
+ * Render inside AdminGate.
+ */
+export function AdminDashboard() {
+  const [slug, setSlug] = useState(CAMPAIGNS[0].slug);
+
+  return (
+    <div className="space-y-6">
+      {CAMPAIGNS.length > 1 && (
+        <Select value={slug} onValueChange={setSlug}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAMPAIGNS.map((campaign) => (
+              <SelectItem key={campaign.slug} value={campaign.slug}>
+                {campaign.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Tabs defaultValue="stats">
+        <TabsList className="grid w-full grid-cols-6">
+          <TabsTrigger value="stats">Stats</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
+          <TabsTrigger value="updates">Updates</TabsTrigger>
+          <TabsTrigger value="notify">Notify</TabsTrigger>
+          <TabsTrigger value="schedule">Schedule</TabsTrigger>
+          <TabsTrigger value="ledger">Ledger</TabsTrigger>
+        </TabsList>
+        <TabsContent value="stats">
+          <CampaignStatsPanel key={slug} campaign={slug} />
+        </TabsContent>
+        <TabsContent value="settings" className="space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <CampaignSettingsForm key={slug} campaign={slug} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Sponsor matching pools</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <MatchingPoolsForm key={slug} campaign={slug} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="updates">
+          <Card>
+            <CardContent className="pt-6">
+              <ProjectUpdateComposer
+                onPost={(update) =>
+                  fetchWithSession("/api/updates", {
+                    method: "POST",
+                    body: JSON.stringify({ ...update, campaign: slug }),
+                  })
+                }
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="notify">
+          <Card>
+            <CardContent className="pt-6">
+              <AdminNotificationForm path={`/campaign/${slug}`} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="schedule">
+          <Card>
+            <CardContent className="pt-6">
+              <AdminBroadcastScheduler key={slug} campaign={slug} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        <TabsContent value="ledger">
+          <Card>
+            <CardContent className="pt-6">
+              <LedgerEditor key={slug} campaign={slug} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function CampaignStatsPanel({ campaign }: { campaign: string }) {
+  const { stats, error, refresh } = useCampaignStats(campaign);
+
+  if (error) return <p className="text-sm text-red-500">{error}</p>;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <DonationProgress progress={stats?.progress ?? null} isLoading={!stats} />
+          {stats && (
+            <dl className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Donations</dt>
+                <dd className="font-semibold">{stats.donations}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Notification subscribers</dt>
+                <dd className="font-semibold">{stats.notificationSubscribers}</dd>
+              </div>
+              {Object.entries(stats.payments).map(([status, count]) => (
+                <div key={status}>
+                  <dt className="capitalize text-muted-foreground">
+                    {status} payments
+                  </dt>
+                  <dd className="font-semibold">{count}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </CardContent>
+      </Card>
+
+      {stats && stats.assets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">By token</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Token</TableHead>
+                  <TableHead className="text-right">Donations</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">USD</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.assets.map((asset) => (
+                  <TableRow key={asset.asset}>
+                    <TableCell>
+                      {asset.symbol} on {getChainById(asset.chainId).name}
+                    </TableCell>
+                    <TableCell className="text-right">{asset.donations}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {asset.amount.toLocaleString("en-US", {
+                        maximumFractionDigits: 6,
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatUsd(asset.usd)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {stats && stats.notes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Donor notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {stats.notes.map((note) => (
+                <li
+                  key={note.paymentId}
+                  className="flex items-start justify-between gap-3 py-2"
+                >
+                  <div className="space-y-1">
+                    <p
+                      className={`break-words ${note.hidden ? "text-muted-foreground line-through" : ""}`}
+                    >
+                      {note.text}
+                    </p>
+                    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {note.donor} · ${note.amountUsd}
+                      {!note.isPublic && <Badge variant="secondary">Private</Badge>}
+                      {note.hidden && <Badge variant="secondary">Hidden</Badge>}
+                    </p>
+                  </div>
+                  {note.isPublic && (
+                    <HideNoteButton
+                      campaign={campaign}
+                      note={note}
+                      onChange={refresh}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {stats && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Sponsor matching</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <MatchingPoolsTable pools={stats.matchingPools} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Take a public note off the donor wall, or put it back
+ */
+function HideNoteButton({
+  campaign,
+  note,
+  onChange,
+}: {
+  campaign: string;
+  note: DonorNoteEntry;
+  onChange: () => Promise<void>;
+}) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await fetchWithSession("/api/admin/notes", {
+        method: "PUT",
+        body: JSON.stringify({
+          campaign,
+          paymentId: note.paymentId,
+          hidden: !note.hidden,
+        }),
+      });
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update note");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="shrink-0 space-y-1 text-right">
+      <Button variant="outline" size="sm" onClick={handleClick} disabled={isSaving}>
+        {note.hidden ? "Unhide" : "Hide"}
+      </Button>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
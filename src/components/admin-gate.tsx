@@ -0,0 +1,45 @@
+"use client";
+
+import { ShieldAlert } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent } from "~/components/ui/card";
+import { useAdminSession } from "~/hooks/use-admin-session";
+
+/**
+ * Render the creator tools only after the server has verified the user's
+ * Farcaster identity. The routes behind them check again on every request.
+ */
+export function AdminGate({ children }: { children: React.ReactNode }) {
+  const { status, fid, error, refresh } = useAdminSession();
+
+  if (status === "creator") return <>{children}</>;
+
+  if (status === "loading") {
+    return (
+      <div className="space-y-3">
+        <div className="h-8 w-1/2 rounded bg-muted animate-pulse" />
+        <div className="h-40 w-full rounded bg-muted animate-pulse" />
+      </div>
+    );
+  }
+
+  const message = {
+    forbidden: `Farcaster account ${fid} is not a creator of this project.`,
+    outside_client: "Open this page in a Farcaster client to sign in.",
+    error: error || "Sign in failed.",
+  }[status];
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center gap-3 pt-6 text-center">
+        <ShieldAlert className="h-8 w-8 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">{message}</p>
+        {status === "error" && (
+          <Button variant="outline" onClick={refresh}>
+            Try again
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import { fetchWithSession } from "~/hooks/use-session";
+import { translate } from "~/lib/i18n";
+import {
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+} from "~/lib/notification-preferences";
+
+/**
+ * Pick the category a notification is sent under; users who turned it off
+ * don't get it. Labels stay in English like the rest of /admin.
+ */
+export function NotificationCategorySelect({
+  value,
+  onChange,
+}: {
+  value: NotificationCategory;
+  onChange: (category: NotificationCategory) => void;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(category) => onChange(category as NotificationCategory)}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {NOTIFICATION_CATEGORIES.map((category) => (
+          <SelectItem key={category} value={category}>
+            {translate("en", `notifications.category.${category}.label`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Send a notification to every user who enabled them and the category
+ * @param path - Page the notification opens, e.g. /campaign/lensenia
+ */
+export function AdminNotificationForm({ path }: { path: string }) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [category, setCategory] = useState<NotificationCategory>("updates");
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    try {
+      const { results } = await fetchWithSession<{
+        results: Record<string, number>;
+      }>("/api/admin/notifications", {
+        method: "POST",
+        body: JSON.stringify({ title, body, path, category }),
+      });
+      setMessage(`Sent to ${results.sent || 0} supporters`);
+      setTitle("");
+      setBody("");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to send");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="notification-title">Title</Label>
+        <Input
+          id="notification-title"
+          maxLength={32}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="notification-body">Message</Label>
+        <Textarea
+          id="notification-body"
+          maxLength={128}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Category</Label>
+        <NotificationCategorySelect value={category} onChange={setCategory} />
+      </div>
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      <Button
+        className="w-full"
+        onClick={handleSend}
+        disabled={isSending || !title.trim() || !body.trim()}
+      >
+        {isSending ? "Sending..." : "Send notification"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { Droplets } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useI18n } from "~/hooks/use-i18n";
+import {
+  formatImpact,
+  formatLocalAmount,
+  type ExchangeRates,
+  type ImpactRatio,
+} from "~/lib/currency";
+
+/**
+ * A dollar amount in the donor's local currency, e.g. "≈ COP 40.000"
+ */
+export function LocalAmount({
+  usd,
+  currency,
+  exchangeRates,
+  className,
+}: {
+  usd: number;
+  currency?: string;
+  exchangeRates: ExchangeRates;
+  className?: string;
+}) {
+  const { t, locale } = useI18n();
+  const rate = currency ? exchangeRates.rates[currency] : undefined;
+  if (!currency || !rate) return null;
+
+  return (
+    <span className={className}>
+      {t("currency.approx", {
+        amount: formatLocalAmount(usd, currency, rate, locale),
+      })}
+    </span>
+  );
+}
+
+/**
+ * The selected amount in a local currency and what it pays for,
+ * e.g. "≈ COP 100.000" and "≈ 700 liters of clean water"
+ */
+export function AmountEquivalents({
+  usd,
+  currency,
+  onCurrencyChange,
+  exchangeRates,
+  impact = [],
+}: {
+  usd: number;
+  currency?: string;
+  onCurrencyChange: (currency: string) => void;
+  exchangeRates: ExchangeRates;
+  impact?: ImpactRatio[];
+}) {
+  const { t, locale, formatUsd } = useI18n();
+  const currencies = Object.keys(exchangeRates.rates);
+  if (currencies.length === 0 && impact.length === 0) return null;
+
+  return (
+    <div className="rounded-md bg-sky-50 p-3 text-sm text-sky-900 space-y-2 dark:bg-sky-950 dark:text-sky-100">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold">
+          {t("currency.impactTitle", { amount: formatUsd(usd) })}
+        </p>
+        {currencies.length > 1 && currency && (
+          <Select value={currency} onValueChange={onCurrencyChange}>
+            <SelectTrigger
+              className="h-7 w-20 bg-white/60 text-xs dark:bg-black/20"
+              aria-label={t("currency.showIn")}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {currency && exchangeRates.rates[currency] && (
+          <li>
+            <LocalAmount
+              usd={usd}
+              currency={currency}
+              exchangeRates={exchangeRates}
+            />
+          </li>
+        )}
+        {impact.map((ratio) => (
+          <li key={ratio.unit.en.other} className="flex items-center gap-1.5">
+            <Droplets className="h-3.5 w-3.5 shrink-0 text-sky-600" />
+            {t("currency.approx", { amount: formatImpact(usd, ratio, locale) })}
+          </li>
+        ))}
+      </ul>
+      {currency && exchangeRates.rates[currency] && (
+        <p className="text-xs opacity-70">
+          {exchangeRates.source === "static"
+            ? t("currency.ratesStatic")
+            : t("currency.ratesFrom", { source: exchangeRates.source })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { CampaignSettings } from "~/lib/campaign-settings";
+import { parseRateTable, stringifyRateTable } from "~/lib/currency";
+
+type SettingsResponse = {
+  defaults: Required<CampaignSettings>;
+  settings: CampaignSettings;
+};
+
+/**
+ * Edit the goal, recipient, preset amounts and exchange rates saved over the
+ * defaults in code. Clearing a field restores its default.
+ */
+export function CampaignSettingsForm({ campaign }: { campaign: string }) {
+  const [defaults, setDefaults] = useState<SettingsResponse["defaults"] | null>(
+    null,
+  );
+  const [goal, setGoal] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [presets, setPresets] = useState("");
+  const [rates, setRates] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const path = `/api/admin/settings?campaign=${encodeURIComponent(campaign)}`;
+
+  useEffect(() => {
+    fetchWithSession<SettingsResponse>(path)
+      .then(({ defaults, settings }) => {
+        setDefaults(defaults);
+        setGoal(settings.goal?.toString() ?? "");
+        setRecipient(settings.recipient ?? "");
+        setPresets(settings.presetAmounts?.join(", ") ?? "");
+        setRates(
+          settings.exchangeRates ? stringifyRateTable(settings.exchangeRates) : "",
+        );
+      })
+      .catch((err) => setMessage(err.message));
+  }, [path]);
+
+  const handleSave = async () => {
+    const exchangeRates = rates.trim() ? parseRateTable(rates) : null;
+    if (exchangeRates === null && rates.trim()) {
+      setMessage("Write exchange rates as COP=4000, EUR=0.92");
+      return;
+    }
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await fetchWithSession(path, {
+        method: "PUT",
+        body: JSON.stringify({
+          goal: goal.trim() ? Number(goal) : null,
+          recipient: recipient.trim() || null,
+          presetAmounts: presets.trim()
+            ? presets.split(",").map((amount) => Number(amount.trim()))
+            : null,
+          exchangeRates,
+        }),
+      });
+      setMessage("Saved. Campaign pages show the new settings now.");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="settings-goal">Goal (USD)</Label>
+        <Input
+          id="settings-goal"
+          inputMode="decimal"
+          placeholder={defaults?.goal.toString()}
+          value={goal}
+          onChange={(e) => setGoal(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-recipient">Recipient address</Label>
+        <Input
+          id="settings-recipient"
+          className="font-mono text-xs"
+          placeholder={defaults?.recipient}
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Only new donations go to a changed address.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-presets">Preset amounts (USD)</Label>
+        <Input
+          id="settings-presets"
+          placeholder={defaults?.presetAmounts.join(", ")}
+          value={presets}
+          onChange={(e) => setPresets(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="settings-rates">Local currencies per US dollar</Label>
+        <Input
+          id="settings-rates"
+          placeholder={
+            defaults ? stringifyRateTable(defaults.exchangeRates) : undefined
+          }
+          value={rates}
+          onChange={(e) => setRates(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Shown next to dollar amounts, first currency by default. Live rates
+          replace these when EXCHANGE_RATES_URL is set.
+        </p>
+      </div>
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      <Button className="w-full" onClick={handleSave} disabled={isSaving}>
+        {isSaving ? "Saving..." : "Save settings"}
+      </Button>
+    </div>
+  );
+}
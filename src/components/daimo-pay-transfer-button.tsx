@@ -2,8 +2,41 @@
 
 import { DaimoPayButton } from "@daimo/pay";
 import { baseUSDC } from "@daimo/contract";
+import sdk from "@farcaster/miniapp-sdk";
 import { getAddress } from "viem";
 import { Button } from "~/components/ui/button";
+import {
+  toPaymentRecord,
+  type DaimoPaymentEvent,
+  type DonorNote,
+  type DonorVisibility,
+  type PaymentRecord,
+} from "~/lib/payments";
+
+/**
+ * Save a payment record through /api/payments. Failures are logged only,
+ * the payment itself already went through.
+ * @param signIn - send a Quick Auth token, so the server records the payer's
+ * FID; it ignores the FID in the record
+ */
+async function persistPayment(payment: PaymentRecord, signIn: boolean) {
+  const init: RequestInit = {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payment),
+  };
+  try {
+    // Save the payment anyway if the user doesn't sign in
+    const res = signIn
+      ? await sdk.quickAuth
+          .fetch("/api/payments", init)
+          .catch(() => fetch("/api/payments", init))
+      : await fetch("/api/payments", init);
+    if (!res.ok) throw new Error(`API Error: ${res.status}`);
+  } catch (error) {
+    console.error("Failed to save payment", error);
+  }
+}
 
 export function DaimoPayTransferButton({
   text,
@@ -11,17 +44,61 @@ export function DaimoPayTransferButton({
   toAddress,
   tokenAddress,
   amount,
+  campaign,
+  fid,
+  referrerFid,
+  visibility,
+  note,
+  persist = false,
   onPaymentStarted,
   onPaymentCompleted,
+  onPaymentBounced,
 }: {
   text: string;
   toAddress: `0x${string}`;
   amount: string;
   tokenAddress?: `0x${string}`;
   toChainId?: number;
-  onPaymentStarted?: () => void;
-  onPaymentCompleted?: () => void;
+  /** Campaign slug, attached to the payment record and Daimo metadata */
+  campaign?: string;
+  /**
+   * Farcaster user making the payment, when known. Only callbacks use it;
+   * saved payments take the FID from the session.
+   */
+  fid?: number;
+  /** Farcaster user whose shared link led to this payment */
+  referrerFid?: number;
+  /** How the donor asked to be listed */
+  visibility?: DonorVisibility;
+  note?: DonorNote;
+  /** Save each payment event server-side via /api/payments */
+  persist?: boolean;
+  onPaymentStarted?: (payment: PaymentRecord) => void;
+  onPaymentCompleted?: (payment: PaymentRecord) => void;
+  onPaymentBounced?: (payment: PaymentRecord) => void;
 }) {
+  const handleEvent = (
+    event: DaimoPaymentEvent,
+    callback?: (payment: PaymentRecord) => void,
+  ) => {
+    const payment = toPaymentRecord(event, {
+      campaign,
+      fid,
+      referrerFid,
+      visibility,
+      note,
+    });
+    if (persist) persistPayment(payment, !!fid);
+    callback?.(payment);
+  };
+
+  // Daimo keeps metadata with the payment, so webhooks know where it belongs.
+  // Who paid comes from the Quick Auth session instead, which can't be forged.
+  const metadata: Record<string, string> = {};
+  if (campaign) metadata.campaign = campaign;
+  if (visibility) metadata.visibility = visibility;
+  if (referrerFid) metadata.referrerFid = String(referrerFid);
+
   return (
     <div className="flex justify-center text-xl font-bold rounded-lg shadow-lg">
       <DaimoPayButton.Custom
@@ -30,14 +107,10 @@ export function DaimoPayTransferButton({
         toUnits={amount}
         toToken={tokenAddress || getAddress(baseUSDC.token)}
         toAddress={toAddress}
-        onPaymentStarted={(e) => {
-          console.log("Payment started", e);
-          onPaymentStarted?.();
-        }}
-        onPaymentCompleted={(e) => {
-          console.log("Payment completed", e);
-          onPaymentCompleted?.();
-        }}
+        metadata={metadata}
+        onPaymentStarted={(e) => handleEvent(e, onPaymentStarted)}
+        onPaymentCompleted={(e) => handleEvent(e, onPaymentCompleted)}
+        onPaymentBounced={(e) => handleEvent(e, onPaymentBounced)}
         closeOnSuccess
       >
         {({ show: showDaimoModal }) => (
@@ -0,0 +1,80 @@
+"use client";
+
+import { useI18n } from "~/hooks/use-i18n";
+import type { DonationProgress as DonationProgressData } from "~/lib/donations";
+
+export function DonationProgress({
+  progress,
+  isLoading,
+}: {
+  progress: DonationProgressData | null;
+  isLoading?: boolean;
+}) {
+  const { t, formatUsd } = useI18n();
+
+  if (!progress) {
+    return (
+      <div className="space-y-2">
+        <div className="h-5 w-1/2 rounded bg-muted animate-pulse" />
+        <div className="h-3 w-full rounded-full bg-muted animate-pulse" />
+        {!isLoading && (
+          <p className="text-xs text-muted-foreground">
+            {t("progress.unavailable")}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { goal, raised, matched } = progress;
+  // Donations fill the bar first, sponsor matching is stacked after them
+  const donatedPercent = goal > 0 ? Math.min(100, (raised / goal) * 100) : 0;
+  const matchedPercent = Math.max(0, progress.percent - donatedPercent);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-lg font-semibold">
+          {formatUsd(raised + matched)}{" "}
+          <span className="text-sm font-normal text-muted-foreground">
+            {t("progress.raisedOf", { goal: formatUsd(goal) })}
+          </span>
+        </p>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.floor(progress.percent)}
+        className="flex h-3 w-full overflow-hidden rounded-full bg-neutral-900/20 dark:bg-neutral-50/20"
+      >
+        <div
+          className="h-full bg-neutral-900 transition-all dark:bg-neutral-50"
+          style={{ width: `${donatedPercent}%` }}
+        />
+        <div
+          className="h-full bg-amber-500 transition-all"
+          style={{ width: `${matchedPercent}%` }}
+        />
+      </div>
+      {matched > 0 && (
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full bg-neutral-900 dark:bg-neutral-50" />
+            {t("progress.donated", { amount: formatUsd(raised) })}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full bg-amber-500" />
+            {t("progress.matched", { amount: formatUsd(matched) })}
+          </span>
+        </div>
+      )}
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {t("progress.funded", { percent: Math.floor(progress.percent) })}
+        </span>
+        <span>{t("progress.donors", { count: progress.donorCount })}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { CheckCircle2, ExternalLink, FileText } from "lucide-react";
+import { DonationProgress } from "~/components/donation-progress";
+import { PledgeCard } from "~/components/pledge-card";
+import { ShareCastButton } from "~/components/share-cast-button";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent } from "~/components/ui/card";
+import { useI18n } from "~/hooks/use-i18n";
+import {
+  findCampaignAsset,
+  getDonationSharePath,
+  type Campaign,
+} from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+import type { DonationProgress as DonationProgressData } from "~/lib/donations";
+import type { PaymentRecord } from "~/lib/payments";
+
+type DonationSuccessProps = {
+  campaign: Campaign;
+  payment: PaymentRecord;
+  progress: DonationProgressData | null;
+  isLoading: boolean;
+  onDonateAgain: () => void;
+};
+
+export function DonationSuccess({
+  campaign,
+  payment,
+  progress,
+  isLoading,
+  onDonateAgain,
+}: DonationSuccessProps) {
+  const { t, formatUsd } = useI18n();
+  const { destination } = payment;
+  const asset = findCampaignAsset(
+    campaign,
+    destination.chainId,
+    destination.tokenAddress,
+  );
+  const amountLabel = asset?.isStablecoin
+    ? `${formatUsd(Number(destination.amount))} ${destination.tokenSymbol}`
+    : `${destination.amount} ${destination.tokenSymbol}`;
+
+  const explorerUrl = getChainById(destination.chainId).blockExplorers?.default.url;
+  const txUrl =
+    explorerUrl && destination.txHash
+      ? `${explorerUrl}/tx/${destination.txHash}`
+      : null;
+  // The share page renders an image with the donor's avatar and the progress
+  const shareUrl = `${window.location.origin}${getDonationSharePath(campaign.slug, payment.paymentId)}`;
+
+  return (
+    <Card className="border-green-200 bg-green-50">
+      <CardContent className="pt-6 space-y-6">
+        <div className="flex flex-col items-center text-center gap-2">
+          <CheckCircle2 className="h-12 w-12 text-green-600" />
+          <div className="text-green-600 text-2xl font-semibold">
+            {t("success.title")}
+          </div>
+          <p className="text-green-700">
+            {t("success.received", {
+              amount: amountLabel,
+              campaign: campaign.title,
+            })}
+          </p>
+          {txUrl && (
+            <a
+              href={txUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-sm text-green-700 underline"
+            >
+              {t("common.viewTransaction")}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        <DonationProgress progress={progress} isLoading={isLoading} />
+
+        <PledgeCard campaign={campaign} payment={payment} />
+
+        <div className="space-y-3">
+          <p className="text-sm text-center text-green-800">
+            {t("success.spreadTheWord")}
+          </p>
+          <ShareCastButton
+            text={campaign.shareText}
+            url={shareUrl}
+            className="w-full"
+          />
+          <Button asChild variant="outline" className="w-full">
+            <a
+              href={`/receipts/${payment.paymentId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <FileText className="h-4 w-4" />
+              {t("success.viewReceipt")}
+            </a>
+          </Button>
+          <Button variant="outline" className="w-full" onClick={onDonateAgain}>
+            {t("success.donateAgain")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { Trophy } from "lucide-react";
+import { UserAvatar } from "~/components/avatar";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "~/components/ui/toggle-group";
+import { useI18n } from "~/hooks/use-i18n";
+import { useLeaderboard, useLeaderboardOptOut } from "~/hooks/use-leaderboard";
+import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { formatAddress } from "~/lib/address-utils";
+import type { Campaign } from "~/lib/campaigns";
+import {
+  LEADERBOARD_PERIODS,
+  type LeaderboardEntry,
+  type LeaderboardKind,
+  type LeaderboardPeriod,
+} from "~/lib/leaderboard";
+
+type DonorLeaderboardProps = {
+  campaign: Campaign;
+  limit?: number;
+  /** Changing this value reloads the board, e.g. after a new donation */
+  refreshKey?: unknown;
+  className?: string;
+};
+
+/**
+ * Top donors and top referrers of a campaign, by all time, month or week
+ */
+export function DonorLeaderboard({
+  campaign,
+  limit = 10,
+  refreshKey,
+  className,
+}: DonorLeaderboardProps) {
+  const [kind, setKind] = useState<LeaderboardKind>("donors");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("all");
+  const { context } = useMiniAppSdk();
+  const { t } = useI18n();
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Trophy className="h-4 w-4 text-amber-500" />
+          {t("leaderboard.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={kind}
+          onValueChange={(value) => setKind(value as LeaderboardKind)}
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="donors">{t("leaderboard.donors")}</TabsTrigger>
+            <TabsTrigger value="referrers">
+              {t("leaderboard.referrers")}
+            </TabsTrigger>
+          </TabsList>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            className="mt-3"
+            value={period}
+            // Radix clears the value when the active item is clicked again
+            onValueChange={(value) =>
+              value && setPeriod(value as LeaderboardPeriod)
+            }
+          >
+            {LEADERBOARD_PERIODS.map((value) => (
+              <ToggleGroupItem key={value} value={value}>
+                {t(`leaderboard.period.${value}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <TabsContent value={kind}>
+            <LeaderboardList
+              campaign={campaign.slug}
+              kind={kind}
+              period={period}
+              limit={limit}
+              refreshKey={refreshKey}
+            />
+          </TabsContent>
+        </Tabs>
+
+        {context?.user.fid && <OptOutSwitch fid={context.user.fid} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LeaderboardList({
+  campaign,
+  kind,
+  period,
+  limit,
+  refreshKey,
+}: {
+  campaign: string;
+  kind: LeaderboardKind;
+  period: LeaderboardPeriod;
+  limit: number;
+  refreshKey?: unknown;
+}) {
+  const { t } = useI18n();
+  const { entries, error } = useLeaderboard(
+    campaign,
+    kind,
+    period,
+    limit,
+    refreshKey,
+  );
+
+  if (error && entries === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("leaderboard.loadFailed")}
+      </p>
+    );
+  }
+  if (entries === null) {
+    return (
+      <div className="space-y-3">
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-muted animate-pulse" />
+            <div className="h-4 flex-1 rounded bg-muted animate-pulse" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {kind === "donors"
+          ? t("leaderboard.noDonations")
+          : t("leaderboard.noReferrals")}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry, i) => (
+        <LeaderboardRow
+          key={entry.fid ?? entry.address ?? `anonymous-${i}`}
+          entry={entry}
+          kind={kind}
+        />
+      ))}
+    </ol>
+  );
+}
+
+function LeaderboardRow({
+  entry,
+  kind,
+}: {
+  entry: LeaderboardEntry;
+  kind: LeaderboardKind;
+}) {
+  const { sdk, isMiniApp } = useMiniAppSdk();
+  const { t, formatUsd } = useI18n();
+  const { farcaster } = entry;
+  const name = farcaster
+    ? farcaster.display_name || `@${farcaster.username}`
+    : entry.address
+      ? formatAddress(entry.address)
+      : entry.fid
+        ? `FID ${entry.fid}`
+        : t("common.anonymous");
+
+  const openProfile = async () => {
+    if (!entry.fid) return;
+    if (isMiniApp) {
+      await sdk.actions.viewProfile({ fid: entry.fid });
+    } else if (farcaster) {
+      window.open(`https://farcaster.xyz/${farcaster.username}`, "_blank");
+    }
+  };
+
+  return (
+    <li
+      className={`flex items-center gap-3 rounded-md ${
+        entry.fid ? "cursor-pointer hover:bg-muted/50 transition-colors" : ""
+      }`}
+      onClick={openProfile}
+    >
+      <span className="w-6 text-center text-sm font-semibold text-muted-foreground">
+        {entry.rank}
+      </span>
+      <UserAvatar
+        src={farcaster?.pfp_url}
+        fallback={(farcaster?.username || entry.address?.slice(2) || "?")
+          .substring(0, 2)
+          .toUpperCase()}
+        size="sm"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{name}</p>
+        <p className="text-xs text-muted-foreground">
+          {kind === "donors"
+            ? t("leaderboard.donations", { count: entry.count })
+            : t("leaderboard.referrals", { count: entry.count })}
+        </p>
+      </div>
+      <span className="text-sm font-semibold whitespace-nowrap">
+        {formatUsd(entry.totalAmount)}
+      </span>
+    </li>
+  );
+}
+
+function OptOutSwitch({ fid }: { fid: number }) {
+  const { t } = useI18n();
+  const { optedOut, error, setOptOut } = useLeaderboardOptOut(fid);
+
+  return (
+    <div className="space-y-1 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="leaderboard-opt-out" className="text-sm">
+          {t("leaderboard.showMe")}
+        </Label>
+        <Switch
+          id="leaderboard-opt-out"
+          checked={optedOut === false}
+          disabled={optedOut === null}
+          onCheckedChange={(checked) => setOptOut(!checked)}
+        />
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { Label } from "~/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "~/components/ui/radio-group";
+import { Switch } from "~/components/ui/switch";
+import { Textarea } from "~/components/ui/textarea";
+import { useI18n } from "~/hooks/use-i18n";
+import type { MessageKey } from "~/lib/i18n";
+import {
+  MAX_NOTE_LENGTH,
+  type DonorNote,
+  type DonorVisibility,
+} from "~/lib/payments";
+
+const VISIBILITY_OPTIONS: {
+  value: DonorVisibility;
+  label: MessageKey;
+  description: MessageKey;
+}[] = [
+  {
+    value: "farcaster",
+    label: "privacy.farcaster",
+    description: "privacy.farcasterHint",
+  },
+  {
+    value: "address",
+    label: "privacy.address",
+    description: "privacy.addressHint",
+  },
+  {
+    value: "anonymous",
+    label: "privacy.anonymous",
+    description: "privacy.anonymousHint",
+  },
+];
+
+export type DonorPrivacy = {
+  visibility: DonorVisibility;
+  noteText: string;
+  isNotePublic: boolean;
+};
+
+export const initialDonorPrivacy: DonorPrivacy = {
+  visibility: "farcaster",
+  noteText: "",
+  isNotePublic: true,
+};
+
+/** The note to save with the payment, if the donor wrote one */
+export function getDonorNote(privacy: DonorPrivacy): DonorNote | undefined {
+  const text = privacy.noteText.trim();
+  return text ? { text, isPublic: privacy.isNotePublic } : undefined;
+}
+
+/**
+ * How the donor wants to be listed, and an optional note for the creator
+ * or for everyone
+ */
+export function DonorPrivacyFields({
+  value,
+  onChange,
+}: {
+  value: DonorPrivacy;
+  onChange: (value: DonorPrivacy) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>{t("privacy.listWith")}</Label>
+        <RadioGroup
+          value={value.visibility}
+          onValueChange={(visibility) =>
+            onChange({ ...value, visibility: visibility as DonorVisibility })
+          }
+        >
+          {VISIBILITY_OPTIONS.map((option) => (
+            <div key={option.value} className="flex items-start gap-2">
+              <RadioGroupItem
+                id={`visibility-${option.value}`}
+                value={option.value}
+                className="mt-0.5"
+              />
+              <Label htmlFor={`visibility-${option.value}`} className="space-y-0.5">
+                <span className="block text-sm">{t(option.label)}</span>
+                <span className="block text-xs font-normal text-muted-foreground">
+                  {t(option.description)}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="donor-note">{t("privacy.note")}</Label>
+        <Textarea
+          id="donor-note"
+          placeholder={t("privacy.notePlaceholder")}
+          maxLength={MAX_NOTE_LENGTH}
+          value={value.noteText}
+          onChange={(e) => onChange({ ...value, noteText: e.target.value })}
+        />
+        {value.noteText.trim() && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="donor-note-public" className="text-xs font-normal">
+              {value.isNotePublic
+                ? t("privacy.notePublic")
+                : t("privacy.notePrivate")}
+            </Label>
+            <Switch
+              id="donor-note-public"
+              checked={value.isNotePublic}
+              onCheckedChange={(isNotePublic) =>
+                onChange({ ...value, isNotePublic })
+              }
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
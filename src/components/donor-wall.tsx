@@ -0,0 +1,175 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { BadgeCheck, Heart } from "lucide-react";
+import { UserAvatar } from "~/components/avatar";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { ScrollArea } from "~/components/ui/scroll-area";
+import { useI18n } from "~/hooks/use-i18n";
+import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { formatAddress } from "~/lib/address-utils";
+import type { Campaign } from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+import type { DonorSummary } from "~/lib/donors";
+
+type DonorWallProps = {
+  campaign: Campaign;
+  limit?: number;
+  /** Changing this value reloads the wall, e.g. after a new donation */
+  refreshKey?: unknown;
+  className?: string;
+};
+
+export function DonorWall({
+  campaign,
+  limit = 30,
+  refreshKey,
+  className,
+}: DonorWallProps) {
+  const { t } = useI18n();
+  const [donors, setDonors] = useState<DonorSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDonors = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        campaign: campaign.slug,
+        limit: String(limit),
+      });
+      const res = await fetch(`/api/donors?${params}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      const data: { donors: DonorSummary[] } = await res.json();
+      setDonors(data.donors);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load donors");
+    }
+  }, [campaign.slug, limit]);
+
+  useEffect(() => {
+    loadDonors();
+  }, [loadDonors, refreshKey]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Heart className="h-4 w-4 text-red-500" />
+          {t("donorWall.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {donors === null && !error && (
+          <div className="space-y-3">
+            {[0, 1, 2].map((i) => (
+              <div key={i} className="flex items-center gap-3">
+                <div className="h-8 w-8 rounded-full bg-muted animate-pulse" />
+                <div className="h-4 flex-1 rounded bg-muted animate-pulse" />
+              </div>
+            ))}
+          </div>
+        )}
+        {error && donors === null && (
+          <p className="text-sm text-muted-foreground">
+            {t("donorWall.loadFailed")}
+          </p>
+        )}
+        {donors?.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t("donorWall.empty")}
+          </p>
+        )}
+        {donors && donors.length > 0 && (
+          <ScrollArea className="h-64 pr-3">
+            <ul className="space-y-3">
+              {donors.map((donor, i) => (
+                <DonorRow
+                  key={donor.user?.primaryAddress ?? `anonymous-${i}`}
+                  donor={donor}
+                  chainId={campaign.assets[0].chainId}
+                />
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DonorRow({
+  donor,
+  chainId,
+}: {
+  donor: DonorSummary;
+  chainId: number;
+}) {
+  const { sdk, isMiniApp } = useMiniAppSdk();
+  const { t, formatUsd, dateLocale } = useI18n();
+  const farcaster = donor.user?.farcaster;
+  const primaryAddress = donor.user?.primaryAddress;
+  const name = farcaster
+    ? farcaster.display_name || `@${farcaster.username}`
+    : primaryAddress
+      ? formatAddress(primaryAddress)
+      : t("common.anonymous");
+
+  const openProfile = async () => {
+    if (farcaster && isMiniApp) {
+      await sdk.actions.viewProfile({ fid: farcaster.fid });
+    } else if (farcaster) {
+      window.open(`https://farcaster.xyz/${farcaster.username}`, "_blank");
+    } else if (primaryAddress) {
+      const explorerUrl = getChainById(chainId).blockExplorers?.default.url;
+      if (explorerUrl) {
+        window.open(`${explorerUrl}/address/${primaryAddress}`, "_blank");
+      }
+    }
+  };
+
+  return (
+    <li
+      className={`flex items-center gap-3 rounded-md ${
+        donor.user ? "cursor-pointer hover:bg-muted/50 transition-colors" : ""
+      }`}
+      onClick={openProfile}
+    >
+      <UserAvatar
+        src={farcaster?.pfp_url}
+        fallback={(farcaster?.username || primaryAddress?.slice(2) || "?")
+          .substring(0, 2)
+          .toUpperCase()}
+        size="sm"
+      />
+      <div className="flex-1 min-w-0">
+        <p className="flex items-center gap-1 text-sm font-medium truncate">
+          {name}
+          {farcaster?.power_badge && (
+            <BadgeCheck className="h-3.5 w-3.5 shrink-0 text-purple-500" />
+          )}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {farcaster
+            ? `@${farcaster.username}`
+            : primaryAddress
+              ? t("donorWall.walletDonor")
+              : t("donorWall.anonymousDonor")}
+          {donor.lastDonatedAt > 0 &&
+            ` · ${formatDistanceToNow(donor.lastDonatedAt * 1000, {
+              addSuffix: true,
+              locale: dateLocale,
+            })}`}
+        </p>
+        {donor.note && (
+          <p className="text-xs italic text-muted-foreground break-words">
+            &ldquo;{donor.note}&rdquo;
+          </p>
+        )}
+      </div>
+      <span className="text-sm font-semibold whitespace-nowrap">
+        {formatUsd(donor.totalAmount)}
+      </span>
+    </li>
+  );
+}
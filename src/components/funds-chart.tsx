@@ -0,0 +1,79 @@
+"use client";
+
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "~/components/ui/chart";
+import { useI18n } from "~/hooks/use-i18n";
+import type { FundsPoint } from "~/lib/transparency";
+
+/**
+ * Cumulative money raised and spent, month by month
+ */
+export function FundsChart({ series }: { series: FundsPoint[] }) {
+  const { t, formatUsd, formatDate } = useI18n();
+
+  if (series.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("transparency.chartEmpty")}
+      </p>
+    );
+  }
+
+  const chartConfig = {
+    raised: { label: t("transparency.raised"), color: "hsl(var(--chart-2))" },
+    spent: { label: t("transparency.spent"), color: "hsl(var(--chart-1))" },
+  } satisfies ChartConfig;
+  const formatMonth = (month: string) =>
+    formatDate(`${month}-01T00:00:00Z`, {
+      month: "short",
+      year: "2-digit",
+      timeZone: "UTC",
+    });
+
+  return (
+    <ChartContainer config={chartConfig} className="w-full">
+      <AreaChart data={series} margin={{ left: 4, right: 4 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="month"
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={formatMonth}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          tickFormatter={(value: number) =>
+            formatUsd(value, { maximumFractionDigits: 0 })
+          }
+        />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={formatMonth} />}
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Area
+          dataKey="raised"
+          type="monotone"
+          fill="var(--color-raised)"
+          fillOpacity={0.3}
+          stroke="var(--color-raised)"
+        />
+        <Area
+          dataKey="spent"
+          type="monotone"
+          fill="var(--color-spent)"
+          fillOpacity={0.3}
+          stroke="var(--color-spent)"
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "~/components/ui/badge";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { Textarea } from "~/components/ui/textarea";
+import { useLedger } from "~/hooks/use-ledger";
+import { fetchWithSession, uploadWithSession } from "~/hooks/use-session";
+import { SUPPORTED_CHAINS } from "~/lib/chains";
+import type { LedgerEntry } from "~/lib/ledger";
+
+const formatUsd = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const postLedgerEntry = (body: Record<string, unknown>) =>
+  fetchWithSession("/api/admin/ledger", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+/**
+ * Record disbursements for the /transparency page and void mistakes.
+ * The full audit trail of who recorded what is listed below the form.
+ */
+export function LedgerEditor({ campaign }: { campaign: string }) {
+  const { ledger, error, refresh } = useLedger(campaign);
+
+  return (
+    <div className="space-y-6">
+      <DisbursementForm
+        onRecord={async (disbursement) => {
+          await postLedgerEntry({ ...disbursement, kind: "disbursement", campaign });
+          await refresh();
+        }}
+      />
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {ledger && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            <span className="text-muted-foreground">Spent: </span>
+            <span className="font-semibold">{formatUsd(ledger.spent)}</span>
+          </p>
+          <ul className="divide-y text-sm">
+            {ledger.disbursements.map((disbursement) => (
+              <li key={disbursement.id} className="space-y-1 py-2">
+                <div className="flex items-baseline justify-between gap-3">
+                  <p className={disbursement.voidedBy ? "line-through" : ""}>
+                    {disbursement.purpose} ({disbursement.payee})
+                  </p>
+                  <p className="font-mono">{formatUsd(disbursement.amountUsd)}</p>
+                </div>
+                {disbursement.voidedBy ? (
+                  <Badge variant="secondary">
+                    Voided: {disbursement.voidedBy.reason}
+                  </Badge>
+                ) : (
+                  <VoidButton
+                    onVoid={async (reason) => {
+                      await postLedgerEntry({
+                        kind: "void",
+                        campaign,
+                        voids: disbursement.id,
+                        reason,
+                      });
+                      await refresh();
+                    }}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+          <AuditTrail entries={ledger.entries} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DisbursementForm({
+  onRecord,
+}: {
+  onRecord: (disbursement: {
+    amountUsd: number;
+    paidAt: string;
+    payee: string;
+    purpose: string;
+    receiptUrl?: string;
+    chainId?: number;
+    txHash?: string;
+  }) => Promise<unknown>;
+}) {
+  const [amount, setAmount] = useState("");
+  const [paidAt, setPaidAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [payee, setPayee] = useState("");
+  const [purpose, setPurpose] = useState("");
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [chainId, setChainId] = useState("");
+  const [txHash, setTxHash] = useState("");
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRecord = async () => {
+    setIsRecording(true);
+    setError(null);
+    try {
+      const receiptUrl = receipt
+        ? await uploadWithSession(receipt, "receipts")
+        : undefined;
+      await onRecord({
+        amountUsd: Number(amount),
+        paidAt,
+        payee,
+        purpose,
+        receiptUrl,
+        ...(txHash.trim() && { chainId: Number(chainId), txHash: txHash.trim() }),
+      });
+      setAmount("");
+      setPayee("");
+      setPurpose("");
+      setReceipt(null);
+      setTxHash("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record disbursement");
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="ledger-amount">Amount (USD)</Label>
+          <Input
+            id="ledger-amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ledger-date">Paid on</Label>
+          <Input
+            id="ledger-date"
+            type="date"
+            value={paidAt}
+            onChange={(e) => setPaidAt(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="ledger-payee">Payee</Label>
+        <Input
+          id="ledger-payee"
+          placeholder="Drilling contractor"
+          maxLength={120}
+          value={payee}
+          onChange={(e) => setPayee(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="ledger-purpose">Purpose</Label>
+        <Textarea
+          id="ledger-purpose"
+          placeholder="Borehole drilling, first installment"
+          maxLength={500}
+          value={purpose}
+          onChange={(e) => setPurpose(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="ledger-receipt">Receipt or invoice</Label>
+        <Input
+          id="ledger-receipt"
+          type="file"
+          accept="image/*,application/pdf"
+          onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Chain</Label>
+          <Select value={chainId} onValueChange={setChainId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Paid onchain?" />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CHAINS.map(({ id, chain }) => (
+                <SelectItem key={id} value={String(id)}>
+                  {chain.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ledger-tx">Transaction hash</Label>
+          <Input
+            id="ledger-tx"
+            placeholder="0x..."
+            value={txHash}
+            onChange={(e) => setTxHash(e.target.value)}
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <Button
+        className="w-full"
+        onClick={handleRecord}
+        disabled={
+          isRecording ||
+          !(Number(amount) > 0) ||
+          !payee.trim() ||
+          !purpose.trim() ||
+          (!!txHash.trim() && !chainId)
+        }
+      >
+        {isRecording ? "Recording..." : "Record disbursement"}
+      </Button>
+    </div>
+  );
+}
+
+function VoidButton({ onVoid }: { onVoid: (reason: string) => Promise<unknown> }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) {
+    return (
+      <Button variant="outline" size="sm" onClick={() => setIsOpen(true)}>
+        Void
+      </Button>
+    );
+  }
+
+  const handleVoid = async () => {
+    setIsVoiding(true);
+    setError(null);
+    try {
+      await onVoid(reason);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to void");
+      setIsVoiding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Why is this entry wrong?"
+          maxLength={500}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={handleVoid}
+          disabled={isVoiding || !reason.trim()}
+        >
+          Void
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function AuditTrail({ entries }: { entries: LedgerEntry[] }) {
+  if (entries.length === 0) return null;
+
+  return (
+    <details className="text-xs text-muted-foreground">
+      <summary className="cursor-pointer">Audit trail</summary>
+      <ol className="mt-2 space-y-1">
+        {entries.map((entry) => (
+          <li key={entry.id}>
+            {format(entry.recordedAt, "PPp")}: FID {entry.recordedBy}{" "}
+            {entry.kind === "void"
+              ? `voided ${entry.voids} (${entry.reason})`
+              : `recorded ${formatUsd(entry.amountUsd)} to ${entry.payee} (${entry.id})`}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { CampaignSettings } from "~/lib/campaign-settings";
+import type { MatchingPool } from "~/lib/campaigns";
+
+type SettingsResponse = {
+  defaults: Required<CampaignSettings>;
+  settings: CampaignSettings;
+};
+
+// Pools added here get their id when saved
+type DraftPool = Omit<MatchingPool, "id"> & { id?: string };
+
+const formatUsd = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+/**
+ * Add and remove sponsor matching pools. Saved pools replace the ones in
+ * code; /admin/matching shows what each sponsor owes.
+ */
+export function MatchingPoolsForm({ campaign }: { campaign: string }) {
+  const [defaults, setDefaults] = useState<MatchingPool[]>([]);
+  const [pools, setPools] = useState<DraftPool[] | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const path = `/api/admin/settings?campaign=${encodeURIComponent(campaign)}`;
+
+  useEffect(() => {
+    fetchWithSession<SettingsResponse>(path)
+      .then(({ defaults, settings }) => {
+        setDefaults(defaults.matchingPools);
+        setPools(settings.matchingPools ?? defaults.matchingPools);
+        setIsSaved(!!settings.matchingPools);
+      })
+      .catch((err) => setMessage(err.message));
+  }, [path]);
+
+  const save = async (matchingPools: DraftPool[] | null) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const { settings } = await fetchWithSession<{
+        settings: CampaignSettings;
+      }>(path, { method: "PUT", body: JSON.stringify({ matchingPools }) });
+      setPools(settings.matchingPools ?? defaults);
+      setIsSaved(!!settings.matchingPools);
+      setMessage("Saved. Donations are matched by these pools now.");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!pools) {
+    return message ? <p className="text-sm text-red-500">{message}</p> : null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {pools.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No matching pools yet.</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {pools.map((pool, index) => (
+            <li
+              key={pool.id ?? `new-${index}`}
+              className="flex items-center justify-between gap-3 py-2"
+            >
+              <div>
+                <p className="font-medium">{pool.sponsor}</p>
+                <p className="text-xs text-muted-foreground">
+                  {pool.ratio}:1 up to {formatUsd(pool.capUsd)},{" "}
+                  {format(new Date(pool.startsAt), "PP")} to{" "}
+                  {format(new Date(pool.endsAt), "PP")}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPools(pools.filter((_, i) => i !== index))}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <PoolForm onAdd={(pool) => setPools([...pools, pool])} />
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+      <Button
+        className="w-full"
+        onClick={() => save(pools)}
+        disabled={isSaving}
+      >
+        {isSaving ? "Saving..." : "Save matching pools"}
+      </Button>
+      {isSaved && (
+        <Button
+          variant="ghost"
+          className="w-full"
+          onClick={() => save(null)}
+          disabled={isSaving}
+        >
+          Use the pools from code
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function PoolForm({ onAdd }: { onAdd: (pool: DraftPool) => void }) {
+  const [sponsor, setSponsor] = useState("");
+  const [sponsorUrl, setSponsorUrl] = useState("");
+  const [ratio, setRatio] = useState("1");
+  const [cap, setCap] = useState("");
+  const [startsAt, setStartsAt] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [endsAt, setEndsAt] = useState("");
+
+  const isValid =
+    !!sponsor.trim() &&
+    Number(ratio) > 0 &&
+    Number(cap) > 0 &&
+    !!startsAt &&
+    !!endsAt &&
+    startsAt < endsAt;
+
+  const handleAdd = () => {
+    onAdd({
+      sponsor: sponsor.trim(),
+      ...(sponsorUrl.trim() && { sponsorUrl: sponsorUrl.trim() }),
+      ratio: Number(ratio),
+      capUsd: Number(cap),
+      // Dates run from local midnight, as picked
+      startsAt: new Date(`${startsAt}T00:00`).toISOString(),
+      endsAt: new Date(`${endsAt}T00:00`).toISOString(),
+    });
+    setSponsor("");
+    setSponsorUrl("");
+    setCap("");
+    setEndsAt("");
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="pool-sponsor">Sponsor</Label>
+          <Input
+            id="pool-sponsor"
+            maxLength={80}
+            value={sponsor}
+            onChange={(e) => setSponsor(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pool-url">Sponsor link</Label>
+          <Input
+            id="pool-url"
+            placeholder="https://"
+            value={sponsorUrl}
+            onChange={(e) => setSponsorUrl(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="pool-ratio">Sponsor dollars per donated dollar</Label>
+          <Input
+            id="pool-ratio"
+            type="number"
+            min="0"
+            step="0.1"
+            value={ratio}
+            onChange={(e) => setRatio(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pool-cap">Cap (USD)</Label>
+          <Input
+            id="pool-cap"
+            type="number"
+            min="0"
+            step="1"
+            value={cap}
+            onChange={(e) => setCap(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="pool-start">Starts</Label>
+          <Input
+            id="pool-start"
+            type="date"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="pool-end">Ends</Label>
+          <Input
+            id="pool-end"
+            type="date"
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={handleAdd}
+        disabled={!isValid}
+      >
+        Add pool
+      </Button>
+    </div>
+  );
+}
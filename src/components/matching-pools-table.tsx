@@ -0,0 +1,87 @@
+import { format } from "date-fns";
+import { Badge } from "~/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import type { MatchingPoolStatus } from "~/lib/matching";
+
+const formatUsd = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const getPoolLabel = ({ pool, remaining, isActive }: MatchingPoolStatus) => {
+  if (isActive) return "Matching";
+  if (remaining <= 0) return "Cap reached";
+  return new Date(pool.startsAt).getTime() > Date.now() ? "Scheduled" : "Ended";
+};
+
+/**
+ * What each sponsor owes for the donations matched so far
+ */
+export function MatchingPoolsTable({ pools }: { pools: MatchingPoolStatus[] }) {
+  if (pools.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This campaign has no matching pool. Add one under Settings in the
+        creator dashboard.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Sponsor</TableHead>
+          <TableHead>Terms</TableHead>
+          <TableHead className="text-right">Owed</TableHead>
+          <TableHead className="text-right">Remaining</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {pools.map((status) => {
+          const { pool, matched, remaining, isActive } = status;
+          return (
+            <TableRow key={pool.id}>
+              <TableCell className="font-medium">
+                {pool.sponsorUrl ? (
+                  <a
+                    href={pool.sponsorUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline"
+                  >
+                    {pool.sponsor}
+                  </a>
+                ) : (
+                  pool.sponsor
+                )}
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {pool.ratio}:1 up to {formatUsd(pool.capUsd)},{" "}
+                {format(new Date(pool.startsAt), "PP")} to{" "}
+                {format(new Date(pool.endsAt), "PP")}
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {formatUsd(matched)}
+              </TableCell>
+              <TableCell className="text-right font-mono">
+                {formatUsd(remaining)}
+              </TableCell>
+              <TableCell>
+                <Badge variant={isActive ? "default" : "secondary"}>
+                  {getPoolLabel(status)}
+                </Badge>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import {
+  Bell,
   Home,
   MoreHorizontal,
   User,
@@ -9,6 +10,7 @@ import {
   Moon,
   Sun,
   GitFork,
+  Languages,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import sdk from "@farcaster/miniapp-sdk";
@@ -31,7 +33,9 @@ import {
 } from "~/components/ui/sidebar";
 import { useRouter } from "next/navigation";
 import { PROJECT_CREATOR } from "~/lib/constants";
+import { useI18n } from "~/hooks/use-i18n";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { LOCALE_NAMES, LOCALES } from "~/lib/i18n";
 
 type NavItem = {
   label: string;
@@ -61,28 +65,42 @@ export function NavActions() {
   const router = useRouter();
   const [isOpen, setIsOpen] = React.useState(false);
   const { theme, setTheme } = useTheme();
+  const { locale, setLocale, t } = useI18n();
+  // The toggle offers the next language, named in that language
+  const nextLocale = LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length];
 
   const data: NavItem[][] = [
     [
       {
-        label: theme === "dark" ? "Light Mode" : "Dark Mode",
+        label: theme === "dark" ? t("nav.lightMode") : t("nav.darkMode"),
         icon: theme === "dark" ? Sun : Moon,
         action: () => setTheme(theme === "dark" ? "light" : "dark"),
       },
+      {
+        label: LOCALE_NAMES[nextLocale],
+        icon: Languages,
+        action: () => setLocale(nextLocale),
+      },
     ],
     [
       {
-        label: "Home",
+        label: t("nav.home"),
         icon: Home,
         href: "/",
       },
       {
-        label: `Made by ${PROJECT_CREATOR}`,
+        label: t("nav.notifications"),
+        icon: Bell,
+        // An in-app page, so it stays in the mini app rather than opening a browser
+        action: () => router.push("/notifications"),
+      },
+      {
+        label: t("nav.madeBy", { creator: PROJECT_CREATOR }),
         icon: User,
         href: `https://farcaster.xyz/${PROJECT_CREATOR}`,
       },
       {
-        label: "Built with Vibes",
+        label: t("nav.builtWith"),
         icon: () => (
           <img
             src="https://vibes.engineering/icon.png"
@@ -96,7 +114,7 @@ export function NavActions() {
       ...(githubRepoUrl
         ? [
             {
-              label: "Copy and Customize",
+              label: t("nav.customize"),
               icon: GitFork,
               href: `https://vibes.engineering?repoUrl=${encodeURIComponent(
                 githubRepoUrl,
@@ -107,7 +125,7 @@ export function NavActions() {
     ],
     [
       {
-        label: "Close",
+        label: t("common.close"),
         icon: X,
         action: () => sdk.actions.close(),
       },
@@ -8,6 +8,7 @@ import {
   SheetHeader,
   SheetTitle,
 } from "~/components/ui/sheet";
+import { useI18n } from "~/hooks/use-i18n";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
 import {
   useAccount,
@@ -133,7 +134,7 @@ type NFTMintFlowProps = {
   variant?: "default" | "destructive" | "secondary" | "ghost" | "outline";
   /** Button size */
   size?: "default" | "sm" | "lg" | "icon";
-  /** Custom button text. Defaults to "Mint NFT" */
+  /** Custom button text. Defaults to "Mint NFT" in the visitor's language */
   buttonText?: string;
   /** Disable the mint button */
   disabled?: boolean;
@@ -159,16 +160,21 @@ export function NFTMintButton({
   className,
   variant = "default",
   size = "default",
-  buttonText = "Mint NFT",
+  buttonText,
   disabled = false,
   onMintSuccess,
   onMintError,
 }: NFTMintFlowProps) {
   const [state, dispatch] = React.useReducer(mintReducer, initialState);
   const [isSheetOpen, setIsSheetOpen] = React.useState(false);
-  const [parsedError, setParsedError] = React.useState<ParsedError | null>(
-    null,
-  );
+  // The raw error is kept so its message follows language changes
+  const [failure, setFailure] = React.useState<{
+    error: unknown;
+    context: "approval" | "mint";
+  } | null>(null);
+  const { t, locale } = useI18n();
+  const parsedError: ParsedError | null =
+    failure && parseError(failure.error, failure.context, locale);
 
   // Convert network name to chainId
   const targetChain = React.useMemo(() => {
@@ -245,16 +251,16 @@ export function NFTMintButton({
 
   // Check if user is on the correct network
   const isCorrectNetwork = chain?.id === chainId;
-  const networkName = targetChain.name || "Unknown";
+  const networkName = targetChain.name || t("mint.unknown");
 
   // Handle transaction status updates
   React.useEffect(() => {
     if (writeError) {
-      const parsed = parseError(writeError, txType || "mint");
+      const context = txType || "mint";
+      setFailure({ error: writeError, context });
 
       // Show retry option for user rejections
-      if (parsed.type === "user-rejected") {
-        setParsedError(parsed);
+      if (parseError(writeError, context).type === "user-rejected") {
         dispatch({
           type: "TX_ERROR",
           payload: "Transaction cancelled by user",
@@ -262,15 +268,13 @@ export function NFTMintButton({
         return;
       }
 
-      setParsedError(parsed);
       dispatch({ type: "TX_ERROR", payload: writeError.message });
       if (txType === "mint") {
         onMintError?.(writeError.message);
       }
     }
     if (isTxError && txError) {
-      const parsed = parseError(txError, txType || "mint");
-      setParsedError(parsed);
+      setFailure({ error: txError, context: txType || "mint" });
       dispatch({ type: "TX_ERROR", payload: txError.message });
       if (txType === "mint") {
         onMintError?.(txError.message);
@@ -306,7 +310,7 @@ export function NFTMintButton({
   const handleClose = React.useCallback(() => {
     setIsSheetOpen(false);
     dispatch({ type: "RESET" });
-    setParsedError(null);
+    setFailure(null);
   }, []);
 
   // Auto-close on success after 10 seconds
@@ -549,8 +553,7 @@ export function NFTMintButton({
     const message = error instanceof Error ? error.message : `${context}`;
 
     // Parse the error for better UX
-    const parsed = parseError(error, transactionType || "mint");
-    setParsedError(parsed);
+    setFailure({ error, context: transactionType || "mint" });
 
     dispatch({ type: "TX_ERROR", payload: message });
     // Use explicit transaction type if provided, otherwise fall back to state
@@ -566,7 +569,7 @@ export function NFTMintButton({
 
   // Display helpers (quick win: centralized formatting)
   const formatPrice = (amount: bigint, decimals: number, symbol: string) => {
-    if (amount === BigInt(0)) return "Free";
+    if (amount === BigInt(0)) return t("mint.free");
     return `${Number(amount) / 10 ** decimals} ${symbol}`;
   };
 
@@ -580,7 +583,7 @@ export function NFTMintButton({
     }
     return priceData.mintPrice
       ? `${formatEther(priceData.mintPrice)} ETH`
-      : "Free";
+      : t("mint.free");
   };
 
   const displayTotalCost = () => {
@@ -594,7 +597,7 @@ export function NFTMintButton({
     }
     return priceData.totalCost
       ? `${formatEther(priceData.totalCost)} ETH`
-      : "Free";
+      : t("mint.free");
   };
 
   const displayMintFee = () => {
@@ -605,7 +608,7 @@ export function NFTMintButton({
   const providerName = contractInfo?.provider
     ? contractInfo.provider.charAt(0).toUpperCase() +
       contractInfo.provider.slice(1)
-    : "Unknown";
+    : t("mint.unknown");
 
   // Quick win: validation helper
   const isReadyToMint = () => {
@@ -636,7 +639,7 @@ export function NFTMintButton({
         className={cn("w-full", className)}
       >
         <Coins className="h-4 w-4 mr-2" />
-        {buttonText}
+        {buttonText ?? t("mint.button")}
       </Button>
 
       <SheetContent
@@ -645,20 +648,22 @@ export function NFTMintButton({
       >
         <SheetHeader className="mb-4">
           <SheetTitle>
-            {step === "detecting" && "Detecting NFT Type"}
-            {step === "sheet" && "Mint NFT"}
-            {step === "connecting" && "Connecting Wallet"}
-            {step === "approve" && "Approve Token"}
-            {step === "approving" && "Approving..."}
-            {step === "minting" && "Preparing Mint"}
+            {step === "detecting" && t("mint.step.detecting")}
+            {step === "sheet" && t("mint.step.sheet")}
+            {step === "connecting" && t("mint.step.connecting")}
+            {step === "approve" && t("mint.step.approve")}
+            {step === "approving" && t("mint.step.approving")}
+            {step === "minting" && t("mint.step.minting")}
             {step === "waiting" &&
-              (txType === "approval" ? "Approving..." : "Minting...")}
-            {step === "success" && "Mint Successful!"}
+              (txType === "approval"
+                ? t("mint.step.approving")
+                : t("mint.step.waitingMint"))}
+            {step === "success" && t("mint.step.success")}
             {step === "error" &&
               (parsedError?.type === "user-rejected"
-                ? "Transaction Cancelled"
-                : "Transaction Failed")}
-            {step === "validation-error" && "Missing Information"}
+                ? t("mint.step.cancelled")
+                : t("mint.step.failed"))}
+            {step === "validation-error" && t("mint.step.validation")}
           </SheetTitle>
         </SheetHeader>
 
@@ -669,7 +674,7 @@ export function NFTMintButton({
               <Loader2 className="h-10 w-10 sm:h-12 sm:w-12 animate-spin text-neutral-900 dark:text-neutral-50" />
             </div>
             <p className="text-neutral-500 dark:text-neutral-400">
-              Detecting NFT contract type...
+              {t("mint.detectingType")}
             </p>
           </div>
         )}
@@ -682,7 +687,7 @@ export function NFTMintButton({
             </div>
             <div className="space-y-2">
               <p className="font-semibold text-center">
-                Missing Required Information
+                {t("mint.missingInfo")}
               </p>
               {validationErrors.map((err, idx) => (
                 <p
@@ -694,7 +699,7 @@ export function NFTMintButton({
               ))}
             </div>
             <Button onClick={handleClose} className="w-full">
-              Close
+              {t("common.close")}
             </Button>
           </div>
         )}
@@ -703,19 +708,22 @@ export function NFTMintButton({
         {step === "approve" && erc20Details && (
           <div className="space-y-6">
             <div className="text-center space-y-2">
-              <p className="font-semibold">Approval Required</p>
+              <p className="font-semibold">{t("mint.approvalRequired")}</p>
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                This NFT requires payment in {erc20Details.symbol}. You need to
-                approve the contract to spend your tokens.
+                {t("mint.approvalExplainer", { symbol: erc20Details.symbol })}
               </p>
             </div>
             <div className="space-y-3">
               <div className="flex justify-between items-center py-3 border-b">
-                <span className="text-neutral-500 dark:text-neutral-400">Token</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.token")}
+                </span>
                 <span className="font-semibold">{erc20Details.symbol}</span>
               </div>
               <div className="flex justify-between items-center py-3 border-b">
-                <span className="text-neutral-500 dark:text-neutral-400">Amount to Approve</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.amountToApprove")}
+                </span>
                 <span className="font-semibold">
                   {contractInfo?.claim
                     ? Number(contractInfo.claim.cost) /
@@ -732,7 +740,7 @@ export function NFTMintButton({
               disabled={isWritePending}
             >
               <Coins className="h-5 w-5 mr-2" />
-              Approve {erc20Details.symbol}
+              {t("mint.approveToken", { symbol: erc20Details.symbol })}
             </Button>
           </div>
         )}
@@ -746,7 +754,7 @@ export function NFTMintButton({
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
                     <Info className="h-4 w-4 text-yellow-600" />
-                    <p className="text-sm font-medium">Wrong network</p>
+                    <p className="text-sm font-medium">{t("mint.wrongNetwork")}</p>
                   </div>
                   <Button
                     onClick={handleSwitchNetwork}
@@ -754,7 +762,7 @@ export function NFTMintButton({
                     variant="ghost"
                     className="text-xs"
                   >
-                    Switch to {networkName}
+                    {t("mint.switchTo", { network: networkName })}
                   </Button>
                 </div>
               </div>
@@ -762,31 +770,41 @@ export function NFTMintButton({
 
             <div className="space-y-4">
               <div className="flex justify-between items-center py-3 border-b">
-                <span className="text-neutral-500 dark:text-neutral-400">Provider</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.provider")}
+                </span>
                 <span className="font-semibold">{providerName}</span>
               </div>
               <div className="flex justify-between items-center py-3 border-b gap-2">
-                <span className="text-neutral-500 dark:text-neutral-400">Contract</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.contract")}
+                </span>
                 <span className="font-mono text-xs sm:text-sm">
                   {contractAddress.slice(0, 6)}...{contractAddress.slice(-4)}
                 </span>
               </div>
               <div className="flex justify-between items-center py-3 border-b">
-                <span className="text-neutral-500 dark:text-neutral-400">Quantity</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.quantity")}
+                </span>
                 <span className="font-semibold">{amount}</span>
               </div>
               <div className="flex justify-between items-center py-3 border-b">
-                <span className="text-neutral-500 dark:text-neutral-400">Price per NFT</span>
+                <span className="text-neutral-500 dark:text-neutral-400">
+                  {t("mint.pricePerNft")}
+                </span>
                 <span className="font-semibold">{displayPrice()}</span>
               </div>
               {erc20Details && (
                 <div className="flex justify-between items-center py-3 border-b">
-                  <span className="text-neutral-500 dark:text-neutral-400">Mint Fee</span>
+                  <span className="text-neutral-500 dark:text-neutral-400">
+                    {t("mint.mintFee")}
+                  </span>
                   <span className="font-semibold">{displayMintFee()}</span>
                 </div>
               )}
               <div className="flex justify-between items-center py-3 text-lg font-semibold">
-                <span>Total Cost</span>
+                <span>{t("mint.totalCost")}</span>
                 <span>{displayTotalCost()}</span>
               </div>
             </div>
@@ -808,23 +826,23 @@ export function NFTMintButton({
                 !isCorrectNetwork ? (
                   <>
                     <RefreshCw className="h-4 w-4 mr-2" />
-                    <span className="sm:hidden">Switch Network</span>
+                    <span className="sm:hidden">{t("mint.switchNetwork")}</span>
                     <span className="hidden sm:inline">
-                      Switch Network to Mint
+                      {t("mint.switchNetworkToMint")}
                     </span>
                   </>
                 ) : (
                   <>
                     <Coins className="h-5 w-5 mr-2" />
-                    Mint {amount} NFT{amount > 1 ? "s" : ""}
+                    {t("mint.mintCount", { count: amount })}
                   </>
                 )
               ) : (
                 <>
                   <Wallet className="h-4 w-4 mr-2" />
-                  <span className="sm:hidden">Connect</span>
+                  <span className="sm:hidden">{t("mint.connect")}</span>
                   <span className="hidden sm:inline">
-                    Connect Wallet to Mint
+                    {t("mint.connectToMint")}
                   </span>
                 </>
               )}
@@ -839,7 +857,7 @@ export function NFTMintButton({
               <Loader2 className="h-10 w-10 sm:h-12 sm:w-12 animate-spin text-neutral-900 dark:text-neutral-50" />
             </div>
             <p className="text-neutral-500 dark:text-neutral-400">
-              Connecting to your Farcaster wallet...
+              {t("mint.connectingWallet")}
             </p>
           </div>
         )}
@@ -853,11 +871,11 @@ export function NFTMintButton({
             <div>
               <p className="font-semibold">
                 {step === "approving"
-                  ? "Preparing approval"
-                  : "Preparing mint transaction"}
+                  ? t("mint.preparingApproval")
+                  : t("mint.preparingMint")}
               </p>
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                Please approve the transaction in your wallet
+                {t("mint.approveInWallet")}
               </p>
             </div>
           </div>
@@ -872,11 +890,11 @@ export function NFTMintButton({
             <div>
               <p className="font-semibold">
                 {txType === "approval"
-                  ? "Approval submitted"
-                  : "Transaction submitted"}
+                  ? t("mint.approvalSubmitted")
+                  : t("mint.txSubmitted")}
               </p>
               <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                Waiting for confirmation on the blockchain...
+                {t("mint.waitingConfirmation")}
               </p>
               {txHash && (
                 <p className="text-xs font-mono mt-2 px-3 py-1 bg-neutral-100 rounded dark:bg-neutral-800">
@@ -894,9 +912,11 @@ export function NFTMintButton({
               <CheckCircle className="h-16 w-16 sm:h-20 sm:w-20 text-green-500" />
             </div>
             <div className="space-y-3">
-              <p className="text-xl sm:text-2xl font-semibold">Minted! 🎉</p>
+              <p className="text-xl sm:text-2xl font-semibold">
+                {t("mint.minted")}
+              </p>
               <p className="text-neutral-500 dark:text-neutral-400">
-                {amount} NFT{amount > 1 ? "s" : ""} successfully minted
+                {t("mint.mintedCount", { count: amount })}
               </p>
             </div>
             {txHash && (
@@ -907,14 +927,14 @@ export function NFTMintButton({
                     target="_blank"
                     rel="noopener noreferrer"
                   >
-                    View transaction
+                    {t("common.viewTransaction")}
                     <ExternalLink className="h-3 w-3" />
                   </a>
                 </Button>
               </div>
             )}
             <Button onClick={handleClose} className="w-full" size="lg">
-              Done
+              {t("common.done")}
             </Button>
           </div>
         )}
@@ -941,7 +961,7 @@ export function NFTMintButton({
               </div>
               <div className="space-y-2">
                 <p className="font-semibold text-lg">
-                  {parsedError?.message || "Transaction Failed"}
+                  {parsedError?.message || t("mint.step.failed")}
                 </p>
                 {parsedError?.details && (
                   <p className="text-sm text-neutral-500 max-w-sm mx-auto dark:text-neutral-400">
@@ -957,9 +977,9 @@ export function NFTMintButton({
                 <div className="flex items-center gap-2">
                   <Info className="h-5 w-5 text-yellow-600 flex-shrink-0" />
                   <div>
-                    <p className="font-medium text-sm">Wrong Network</p>
+                    <p className="font-medium text-sm">{t("mint.wrongNetwork")}</p>
                     <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                      Please switch to {networkName} to continue
+                      {t("mint.switchToContinue", { network: networkName })}
                     </p>
                   </div>
                 </div>
@@ -969,7 +989,7 @@ export function NFTMintButton({
                   className="w-full"
                   variant="outline"
                 >
-                  Switch to {networkName}
+                  {t("mint.switchTo", { network: networkName })}
                 </Button>
               </div>
             )}
@@ -980,18 +1000,24 @@ export function NFTMintButton({
                 <div className="flex items-start gap-2">
                   <Wallet className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
                   <div className="text-sm">
-                    <p className="font-medium mb-1">Insufficient Balance</p>
+                    <p className="font-medium mb-1">
+                      {t("mint.insufficientBalance")}
+                    </p>
                     <p className="text-neutral-500 dark:text-neutral-400">
-                      Make sure you have enough:
+                      {t("mint.needEnough")}
                     </p>
                     <ul className="list-disc list-inside text-neutral-500 mt-1 dark:text-neutral-400">
                       {erc20Details ? (
                         <>
-                          <li>{erc20Details.symbol} for the NFT price</li>
-                          <li>ETH for gas fees</li>
+                          <li>
+                            {t("mint.tokenForPrice", {
+                              symbol: erc20Details.symbol,
+                            })}
+                          </li>
+                          <li>{t("mint.ethForGas")}</li>
                         </>
                       ) : (
-                        <li>ETH for both NFT price and gas fees</li>
+                        <li>{t("mint.ethForBoth")}</li>
                       )}
                     </ul>
                   </div>
@@ -1006,7 +1032,7 @@ export function NFTMintButton({
                 onClick={handleClose}
                 className="flex-1"
               >
-                Close
+                {t("common.close")}
               </Button>
               <Button
                 onClick={handleRetry}
@@ -1014,7 +1040,7 @@ export function NFTMintButton({
                 disabled={!isCorrectNetwork && isConnected}
               >
                 <RefreshCw className="h-4 w-4 mr-2" />
-                {parsedError?.actionText || "Try Again"}
+                {parsedError?.actionText || t("mint.tryAgain")}
               </Button>
             </div>
           </div>
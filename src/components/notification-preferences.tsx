@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { BellOff } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { useI18n } from "~/hooks/use-i18n";
+import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { useNotificationPreferences } from "~/hooks/use-notification-preferences";
+import {
+  NOTIFICATION_CATEGORIES,
+  type NotificationCategory,
+} from "~/lib/notification-preferences";
+
+/**
+ * Lets the user choose which categories of notification they receive.
+ * With `unsubscribe`, the link from a notification, that category is offered
+ * first as a one-tap opt-out.
+ */
+export function NotificationPreferences({
+  unsubscribe,
+}: {
+  unsubscribe?: NotificationCategory;
+}) {
+  const { t } = useI18n();
+  const { context, isSDKLoaded } = useMiniAppSdk();
+  const fid = context?.user?.fid;
+  const { preferences, enabled, error, setCategory } =
+    useNotificationPreferences(fid);
+  const [saving, setSaving] = useState<NotificationCategory | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const handleChange = async (category: NotificationCategory, receive: boolean) => {
+    setSaving(category);
+    setSaveError(null);
+    try {
+      await setCategory(category, receive);
+    } catch {
+      setSaveError(t("notifications.failed"));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (isSDKLoaded && !fid) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("notifications.openInFarcaster")}
+      </p>
+    );
+  }
+
+  const label = (category: NotificationCategory) =>
+    t(`notifications.category.${category}.label`);
+
+  return (
+    <div className="space-y-4">
+      {unsubscribe && preferences && (
+        <Card className="border-amber-300 dark:border-amber-700">
+          <CardContent className="flex items-center justify-between gap-3 pt-6">
+            <p className="text-sm">
+              {preferences[unsubscribe]
+                ? t("notifications.unsubscribePrompt", { category: label(unsubscribe) })
+                : t("notifications.unsubscribed", { category: label(unsubscribe) })}
+            </p>
+            {preferences[unsubscribe] && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={saving === unsubscribe}
+                onClick={() => handleChange(unsubscribe, false)}
+              >
+                <BellOff className="mr-1 h-4 w-4" />
+                {t("notifications.unsubscribe")}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("notifications.title")}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {t("notifications.description")}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {enabled === false && (
+            <p className="rounded-md bg-muted p-3 text-xs text-muted-foreground">
+              {t("notifications.notEnabled")}
+            </p>
+          )}
+          {NOTIFICATION_CATEGORIES.map((category) => (
+            <div key={category} className="flex items-start justify-between gap-3">
+              <div className="space-y-0.5">
+                <Label htmlFor={`notifications-${category}`}>{label(category)}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t(`notifications.category.${category}.description`)}
+                </p>
+              </div>
+              <Switch
+                id={`notifications-${category}`}
+                checked={preferences?.[category] ?? false}
+                disabled={!preferences || saving === category}
+                onCheckedChange={(checked) => handleChange(category, checked)}
+              />
+            </div>
+          ))}
+          {(error || saveError) && (
+            <p className="text-xs text-red-500">{saveError ?? error}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useI18n } from "~/hooks/use-i18n";
+import {
+  getUnsubscribePath,
+  isNotificationCategory,
+  NOTIFICATION_CATEGORY_PARAM,
+} from "~/lib/notification-preferences";
+
+/**
+ * On pages opened from a notification, names its category and links to
+ * where the user can unsubscribe from it
+ */
+export function NotificationSourceBanner() {
+  const { t } = useI18n();
+  const category = useSearchParams().get(NOTIFICATION_CATEGORY_PARAM);
+  if (!isNotificationCategory(category)) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-3 border-b bg-muted/50 px-4 py-2 text-xs text-muted-foreground">
+      <span>
+        {t("notifications.fromNotification", {
+          category: t(`notifications.category.${category}.label`),
+        })}
+      </span>
+      <Link href={getUnsubscribePath(category)} className="shrink-0 underline">
+        {t("notifications.manage")}
+      </Link>
+    </div>
+  );
+}
@@ -16,52 +16,19 @@ import {
 import { createPublicClient, http } from "viem";
 import { mainnet } from "viem/chains";
 import { getAlchemyEndpoint } from "~/lib/chains";
-
-// Types based on Neynar API response
-export type FarcasterUser = {
-  fid: number;
-  username: string;
-  display_name: string;
-  pfp_url: string;
-  follower_count: number;
-  following_count: number;
-  power_badge?: boolean;
-  profile?: {
-    bio?: {
-      text?: string;
-    };
-  };
-  verified_addresses?: {
-    eth_addresses?: string[];
-  };
-};
-
-export type NeynarSearchResponse = {
-  result: {
-    users: FarcasterUser[];
-    next?: {
-      cursor: string;
-    };
-  };
-};
-
-export type NeynarBulkAddressResponse = {
-  "0x...": FarcasterUser[];
-};
-
-// Unified user type that combines all identities
-export type UnifiedUser = {
-  // Primary identifier is the onchain address
-  primaryAddress: string;
-  // ENS name if available
-  ensName?: string;
-  // Farcaster profile if available
-  farcaster?: FarcasterUser;
-  // Additional addresses associated with this user
-  addresses: string[];
-  // Source of the result
-  source: "farcaster" | "ens" | "address";
-};
+import {
+  fetchFarcasterUsersByAddresses,
+  type FarcasterUser,
+  type NeynarSearchResponse,
+  type UnifiedUser,
+} from "~/lib/neynar";
+
+export type {
+  FarcasterUser,
+  NeynarSearchResponse,
+  NeynarBulkAddressResponse,
+  UnifiedUser,
+} from "~/lib/neynar";
 
 type OnchainUserSearchProps = {
   apiKey: string;
@@ -210,36 +177,11 @@ export function OnchainUserSearch({
   const searchFarcasterByAddress = async (
     address: string,
   ): Promise<FarcasterUser[]> => {
-    const url = `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${encodeURIComponent(address)}`;
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        accept: "application/json",
-        api_key: apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      // If 404, it means no users found for this address
-      if (response.status === 404) {
-        return [];
-      }
-      const errorData = await response.json();
-      throw new Error(errorData.message || `API Error: ${response.status}`);
-    }
-
-    const data: NeynarBulkAddressResponse = await response.json();
-
-    // The response is an object with addresses as keys
-    const users: FarcasterUser[] = [];
-    for (const [addr, userList] of Object.entries(data)) {
-      if (addressesEqual(addr, address) && Array.isArray(userList)) {
-        users.push(...userList);
-      }
-    }
-
-    return users;
+    const usersByAddress = await fetchFarcasterUsersByAddresses(
+      [address],
+      apiKey,
+    );
+    return usersByAddress.get(address.toLowerCase()) || [];
   };
 
   // Resolve ENS name to address
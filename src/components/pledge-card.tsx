@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { Repeat } from "lucide-react";
+import { Button } from "~/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useI18n } from "~/hooks/use-i18n";
+import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
+import { usePledges } from "~/hooks/use-pledges";
+import { findCampaignAsset, getAssetKey, type Campaign } from "~/lib/campaigns";
+import type { PaymentRecord } from "~/lib/payments";
+import type { PledgeCadence } from "~/lib/pledges";
+
+/**
+ * Offer to repeat a completed donation weekly or monthly, with reminders
+ * sent as mini app notifications
+ */
+export function PledgeCard({
+  campaign,
+  payment,
+}: {
+  campaign: Campaign;
+  payment: PaymentRecord;
+}) {
+  const { context, sdk, isMiniAppSaved } = useMiniAppSdk();
+  const { t, formatUsd, formatDate } = useI18n();
+  const fid = context?.user.fid;
+  const { pledges, createPledge, cancelPledge } = usePledges(fid);
+  const [cadence, setCadence] = useState<PledgeCadence>("monthly");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { destination } = payment;
+  const asset = findCampaignAsset(
+    campaign,
+    destination.chainId,
+    destination.tokenAddress,
+  );
+  // Pledges need a Farcaster user to remind
+  if (!fid || !asset) return null;
+
+  const formatAmount = (amount: string) =>
+    asset.isStablecoin ? formatUsd(Number(amount)) : `${amount} ${asset.symbol}`;
+  const existing = pledges.find((pledge) => pledge.campaign === campaign.slug);
+
+  const handlePledge = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createPledge({
+        campaign: campaign.slug,
+        asset: getAssetKey(asset),
+        amount: destination.amount,
+        cadence,
+        paymentId: payment.paymentId,
+      });
+      // Reminders arrive as notifications, which need the app to be added
+      if (!isMiniAppSaved) await sdk.actions.addMiniApp().catch(() => {});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("pledge.saveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (existing) {
+    return (
+      <div className="rounded-md border border-green-200 bg-white/60 p-3 text-sm space-y-2">
+        <p className="flex items-center gap-2 font-medium text-green-800">
+          <Repeat className="h-4 w-4" />
+          {t(`pledge.active.${existing.cadence}`, {
+            amount: formatAmount(existing.amount),
+          })}
+        </p>
+        <p className="text-green-700">
+          {t("pledge.nextReminder", { date: formatDate(existing.nextDueAt) })}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => cancelPledge(existing.id).catch(() => {})}
+        >
+          {t("pledge.cancel")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-green-200 bg-white/60 p-3 space-y-3">
+      <p className="flex items-center gap-2 text-sm font-medium text-green-800">
+        <Repeat className="h-4 w-4" />
+        {t("pledge.offer")}
+      </p>
+      <div className="flex gap-2">
+        <Select
+          value={cadence}
+          onValueChange={(value) => setCadence(value as PledgeCadence)}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="weekly">{t("pledge.weekly")}</SelectItem>
+            <SelectItem value="monthly">{t("pledge.monthly")}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button className="flex-1" onClick={handlePledge} disabled={isSaving}>
+          {isSaving
+            ? t("common.saving")
+            : t(`pledge.submit.${cadence}`, {
+                amount: formatAmount(destination.amount),
+              })}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
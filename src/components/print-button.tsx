@@ -0,0 +1,19 @@
+"use client";
+
+import { Printer } from "lucide-react";
+import { Button } from "~/components/ui/button";
+
+export function PrintButton({
+  className,
+  label,
+}: {
+  className?: string;
+  label: string;
+}) {
+  return (
+    <Button variant="outline" className={className} onClick={() => window.print()}>
+      <Printer className="h-4 w-4" />
+      {label}
+    </Button>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Switch } from "~/components/ui/switch";
+import { Textarea } from "~/components/ui/textarea";
+import { uploadWithSession } from "~/hooks/use-session";
+import { MAX_UPDATE_PHOTOS } from "~/lib/project-updates";
+
+export function ProjectUpdateComposer({
+  onPost,
+}: {
+  onPost: (update: {
+    title: string;
+    body: string;
+    photos: string[];
+    notify: boolean;
+  }) => Promise<unknown>;
+}) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [notify, setNotify] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePost = async () => {
+    setIsPosting(true);
+    setError(null);
+    try {
+      const photos = await Promise.all(
+        files.map((file) => uploadWithSession(file, "updates")),
+      );
+      await onPost({ title, body, photos, notify });
+      setTitle("");
+      setBody("");
+      setFiles([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to post update");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="space-y-2">
+        <Label htmlFor="update-title">New update</Label>
+        <Input
+          id="update-title"
+          placeholder="Drilling started"
+          maxLength={80}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Textarea
+          placeholder="What happened on site?"
+          maxLength={2000}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="update-photos">Photos</Label>
+        <Input
+          id="update-photos"
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={(e) =>
+            setFiles(Array.from(e.target.files || []).slice(0, MAX_UPDATE_PHOTOS))
+          }
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="update-notify">Notify supporters</Label>
+        <Switch id="update-notify" checked={notify} onCheckedChange={setNotify} />
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <Button
+        className="w-full"
+        onClick={handlePost}
+        disabled={isPosting || !title.trim() || !body.trim()}
+      >
+        {isPosting ? "Posting..." : "Post update"}
+      </Button>
+    </div>
+  );
+}
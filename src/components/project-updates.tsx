@@ -0,0 +1,93 @@
+"use client";
+
+import { Megaphone } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "~/components/ui/carousel";
+import { useI18n } from "~/hooks/use-i18n";
+import { useProjectUpdates } from "~/hooks/use-project-updates";
+import type { Campaign } from "~/lib/campaigns";
+import type { ProjectUpdate } from "~/lib/project-updates";
+
+/**
+ * Timeline of the creator's progress posts, which are written in /admin
+ */
+export function ProjectUpdates({ campaign }: { campaign: Campaign }) {
+  const { t } = useI18n();
+  const { updates, error } = useProjectUpdates(campaign.slug);
+
+  if (!updates?.length && !error) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Megaphone className="h-4 w-4 text-blue-500" />
+          {t("updates.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && updates === null && (
+          <p className="text-sm text-muted-foreground">
+            {t("updates.loadFailed")}
+          </p>
+        )}
+        {updates && updates.length > 0 && (
+          <ol className="relative space-y-6 border-l pl-5">
+            {updates.map((update) => (
+              <UpdateEntry key={update.id} update={update} />
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function UpdateEntry({ update }: { update: ProjectUpdate }) {
+  const { t, formatDate } = useI18n();
+
+  return (
+    <li className="space-y-2">
+      <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-background bg-blue-500" />
+      <p className="text-xs text-muted-foreground">
+        {formatDate(update.createdAt)}
+      </p>
+      <h3 className="font-semibold">{update.title}</h3>
+      <p className="whitespace-pre-line text-sm">{update.body}</p>
+      {update.photos.length === 1 && (
+        <img
+          src={update.photos[0]}
+          alt={update.title}
+          className="w-full rounded-md object-cover"
+        />
+      )}
+      {update.photos.length > 1 && (
+        <Carousel className="mx-10">
+          <CarouselContent>
+            {update.photos.map((photo, index) => (
+              <CarouselItem key={photo}>
+                <img
+                  src={photo}
+                  alt={t("updates.photo", {
+                    title: update.title,
+                    index: index + 1,
+                    total: update.photos.length,
+                  })}
+                  className="aspect-square w-full rounded-md object-cover"
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious />
+          <CarouselNext />
+        </Carousel>
+      )}
+    </li>
+  );
+}
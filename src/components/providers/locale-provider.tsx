@@ -0,0 +1,65 @@
+"use client";
+
+import { createContext, useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  matchLocale,
+  type Locale,
+} from "~/lib/i18n";
+
+export const LocaleContext = createContext<{
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}>({ locale: DEFAULT_LOCALE, setLocale: () => {} });
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365;
+
+const readLocaleCookie = () =>
+  document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${LOCALE_COOKIE}=`))
+    ?.split("=")[1];
+
+/**
+ * Picks the visitor's language: a ?lang= link, then the language they chose
+ * before, then the languages of the Farcaster client's webview or browser.
+ * Pages render in the default language first, since they are cached for everyone.
+ */
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    const param = new URLSearchParams(window.location.search).get("lang");
+    const cookie = readLocaleCookie();
+    const detected = isLocale(param)
+      ? param
+      : isLocale(cookie)
+        ? cookie
+        : (matchLocale(navigator.languages) ?? DEFAULT_LOCALE);
+    setLocaleState(detected);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${ONE_YEAR_SECONDS}; samesite=lax`;
+      setLocaleState(next);
+      // Server-rendered pages such as /transparency read the cookie
+      router.refresh();
+    },
+    [router],
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+}
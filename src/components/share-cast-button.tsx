@@ -1,5 +1,6 @@
 import { Button } from "~/components/ui/button";
 import { Share } from "lucide-react";
+import { useI18n } from "~/hooks/use-i18n";
 import { useMiniAppSdk } from "~/hooks/use-miniapp-sdk";
 import { useMemo } from "react";
 
@@ -17,6 +18,7 @@ export function ShareCastButton({
   className,
 }: ShareCastButtonProps) {
   const { sdk } = useMiniAppSdk();
+  const { t } = useI18n();
 
   const shareUrl = useMemo(() => {
     let share = `https://warpcast.com/~/compose?text=${encodeURIComponent(text)}`;
@@ -53,7 +55,7 @@ export function ShareCastButton({
       className={className || ""}
     >
       <Share className="h-4 w-4 md:h-5 md:w-5" />
-      Share
+      {t("share.button")}
     </Button>
   );
 }
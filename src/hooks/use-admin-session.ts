@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
+import { fetchWithSession } from "~/hooks/use-session";
+
+export type AdminSessionStatus =
+  | "loading"
+  | "creator"
+  | "forbidden"
+  /** Not opened in a Farcaster client, so there is no one to sign in */
+  | "outside_client"
+  | "error";
+
+/**
+ * Hook to sign the user in with Quick Auth and check on the server that
+ * they are one of the configured creators
+ */
+export function useAdminSession() {
+  const [status, setStatus] = useState<AdminSessionStatus>("loading");
+  const [fid, setFid] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setStatus("loading");
+    try {
+      if (!(await sdk.isInMiniApp())) {
+        setStatus("outside_client");
+        return;
+      }
+      const session = await fetchWithSession<{ fid: number; isCreator: boolean }>(
+        "/api/admin/session",
+      );
+      setFid(session.fid);
+      setStatus(session.isCreator ? "creator" : "forbidden");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+      setStatus("error");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { status, fid, error, refresh };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { ScheduledBroadcast } from "~/lib/broadcasts";
+
+/**
+ * Hook to load a campaign's scheduled broadcasts and their delivery reports
+ * from the creator-only /api/admin/broadcasts
+ */
+export function useBroadcasts(campaign: string) {
+  const [broadcasts, setBroadcasts] = useState<ScheduledBroadcast[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await fetchWithSession<{ broadcasts: ScheduledBroadcast[] }>(
+        `/api/admin/broadcasts?campaign=${encodeURIComponent(campaign)}`,
+      );
+      setBroadcasts(data.broadcasts);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load broadcasts");
+    }
+  }, [campaign]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { broadcasts, error, refresh };
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { CampaignStats } from "~/lib/admin-stats";
+
+/**
+ * Hook to load a campaign's donation stats from the creator-only /api/admin/stats
+ */
+export function useCampaignStats(campaign: string) {
+  const [stats, setStats] = useState<CampaignStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(
+        await fetchWithSession<CampaignStats>(
+          `/api/admin/stats?campaign=${encodeURIComponent(campaign)}`,
+        ),
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load stats");
+    }
+  }, [campaign]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { stats, error, refresh };
+}
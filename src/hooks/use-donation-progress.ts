@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { DonationProgress } from "~/lib/donations";
+
+// A completed payment can take a few seconds to show up on the RPC we read from
+const REFRESH_AFTER_PAYMENT_MS = [2000, 8000, 20000];
+
+/**
+ * Hook to load fundraising progress from /api/donations/progress
+ * @param campaignSlug - Campaign to load progress for
+ * @returns progress data plus `refresh` and `refreshAfterPayment` helpers
+ */
+export function useDonationProgress(campaignSlug: string) {
+  const [progress, setProgress] = useState<DonationProgress | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+
+  const refresh = useCallback(async (fresh = false) => {
+    try {
+      const params = new URLSearchParams({ campaign: campaignSlug });
+      if (fresh) params.set("fresh", "1");
+      const res = await fetch(`/api/donations/progress?${params}`, {
+        cache: "no-store",
+      });
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      setProgress(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load progress");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [campaignSlug]);
+
+  /**
+   * Re-read progress a few times so the donor sees their own payment land
+   */
+  const refreshAfterPayment = useCallback(() => {
+    timeoutsRef.current.forEach(clearTimeout);
+    timeoutsRef.current = REFRESH_AFTER_PAYMENT_MS.map((ms) =>
+      setTimeout(() => refresh(true), ms),
+    );
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    const timeouts = timeoutsRef;
+    return () => timeouts.current.forEach(clearTimeout);
+  }, [refresh]);
+
+  return { progress, isLoading, error, refresh, refreshAfterPayment };
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Campaign } from "~/lib/campaigns";
+import type { ExchangeRates } from "~/lib/currency";
+
+/**
+ * Hook to load live rates for the campaign's local currencies from
+ * /api/exchange-rates. Starts from the campaign's own table, which stays
+ * in use if the request fails.
+ */
+export function useExchangeRates(campaign: Campaign) {
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({
+    rates: campaign.exchangeRates ?? {},
+    source: "static",
+  });
+  const hasLocalCurrencies = Object.keys(campaign.exchangeRates ?? {}).length > 0;
+
+  useEffect(() => {
+    if (!hasLocalCurrencies) return;
+    fetch(`/api/exchange-rates?campaign=${encodeURIComponent(campaign.slug)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`API Error: ${res.status}`);
+        return res.json();
+      })
+      .then(setExchangeRates)
+      .catch((err) => console.error("Failed to load exchange rates", err));
+  }, [campaign.slug, hasLocalCurrencies]);
+
+  return exchangeRates;
+}
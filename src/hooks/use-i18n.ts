@@ -0,0 +1,37 @@
+"use client";
+
+import { useContext, useMemo } from "react";
+import { LocaleContext } from "~/components/providers/locale-provider";
+import {
+  createTranslator,
+  formatDate,
+  formatNumber,
+  formatUsd,
+  getDateLocale,
+} from "~/lib/i18n";
+
+/**
+ * The visitor's language, a translator for it and formatters for amounts
+ * and dates in its style
+ */
+export function useI18n() {
+  const { locale, setLocale } = useContext(LocaleContext);
+
+  return useMemo(
+    () => ({
+      locale,
+      setLocale,
+      t: createTranslator(locale),
+      formatUsd: (value: number, options?: Intl.NumberFormatOptions) =>
+        formatUsd(value, locale, options),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+        formatNumber(value, locale, options),
+      formatDate: (
+        date: Date | number | string,
+        options?: Intl.DateTimeFormatOptions,
+      ) => formatDate(date, locale, options),
+      dateLocale: getDateLocale(locale),
+    }),
+    [locale, setLocale],
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "~/hooks/use-session";
+import type {
+  LeaderboardEntry,
+  LeaderboardKind,
+  LeaderboardPeriod,
+} from "~/lib/leaderboard";
+
+/**
+ * Hook to load one leaderboard from /api/leaderboard
+ * @param refreshKey - changing this reloads the board, e.g. after a donation
+ */
+export function useLeaderboard(
+  campaign: string,
+  kind: LeaderboardKind,
+  period: LeaderboardPeriod,
+  limit = 10,
+  refreshKey?: unknown,
+) {
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({
+        campaign,
+        kind,
+        period,
+        limit: String(limit),
+      });
+      const res = await fetch(`/api/leaderboard?${params}`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      const data: { entries: LeaderboardEntry[] } = await res.json();
+      setEntries(data.entries);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load leaderboard");
+    }
+  }, [campaign, kind, period, limit]);
+
+  useEffect(() => {
+    setEntries(null);
+    refresh();
+  }, [refresh, refreshKey]);
+
+  return { entries, error, refresh };
+}
+
+/**
+ * Hook to read and change whether the signed-in user is hidden from
+ * leaderboards, via /api/leaderboard/opt-out
+ * @param fid - Farcaster user from the mini app context; nothing is loaded
+ * without one. The server only trusts the Quick Auth session.
+ */
+export function useLeaderboardOptOut(fid: number | undefined) {
+  const [optedOut, setOptedOut] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!fid) return;
+    fetchWithSession<{ optedOut: boolean }>("/api/leaderboard/opt-out")
+      .then((data) => setOptedOut(data.optedOut))
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load opt-out"),
+      );
+  }, [fid]);
+
+  const setOptOut = useCallback(async (value: boolean) => {
+    try {
+      const data = await fetchWithSession<{ optedOut: boolean }>(
+        "/api/leaderboard/opt-out",
+        { method: "PUT", body: JSON.stringify({ optedOut: value }) },
+      );
+      setOptedOut(data.optedOut);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save opt-out");
+    }
+  }, []);
+
+  return { optedOut, error, setOptOut };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { LedgerDisbursement, LedgerEntry } from "~/lib/ledger";
+
+type Ledger = {
+  entries: LedgerEntry[];
+  disbursements: LedgerDisbursement[];
+  spent: number;
+};
+
+/**
+ * Hook to load a campaign's disbursement ledger from /api/ledger
+ */
+export function useLedger(campaign: string) {
+  const [ledger, setLedger] = useState<Ledger | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/ledger?campaign=${encodeURIComponent(campaign)}`,
+        { cache: "no-store" },
+      );
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      setLedger(await res.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load ledger");
+    }
+  }, [campaign]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { ledger, error, refresh };
+}
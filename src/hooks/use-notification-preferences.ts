@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "~/hooks/use-session";
+import type {
+  NotificationCategory,
+  NotificationPreferences,
+} from "~/lib/notification-preferences";
+
+/**
+ * Hook to load and change the signed-in user's notification categories
+ * via /api/notifications/preferences
+ * @param fid - Farcaster user from the mini app context; nothing is loaded
+ * without one. The server only trusts the Quick Auth session.
+ */
+export function useNotificationPreferences(fid: number | undefined) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(
+    null,
+  );
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!fid) return;
+    try {
+      const data = await fetchWithSession<{
+        preferences: NotificationPreferences;
+        enabled: boolean;
+      }>("/api/notifications/preferences", { cache: "no-store" });
+      setPreferences(data.preferences);
+      setEnabled(data.enabled);
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load notification preferences",
+      );
+    }
+  }, [fid]);
+
+  const setCategory = useCallback(
+    async (category: NotificationCategory, receive: boolean) => {
+      const data = await fetchWithSession<{ preferences: NotificationPreferences }>(
+        "/api/notifications/preferences",
+        { method: "PUT", body: JSON.stringify({ [category]: receive }) },
+      );
+      setPreferences(data.preferences);
+    },
+    [],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { preferences, enabled, error, refresh, setCategory };
+}
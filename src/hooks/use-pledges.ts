@@ -0,0 +1,70 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchWithSession } from "~/hooks/use-session";
+import type { Pledge, PledgeCadence } from "~/lib/pledges";
+
+/**
+ * Hook to list, create and cancel the signed-in user's recurring pledges
+ * via /api/pledges
+ * @param fid - Farcaster user from the mini app context; nothing is loaded
+ * without one. The server only trusts the Quick Auth session.
+ */
+export function usePledges(fid: number | undefined) {
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!fid) return;
+    setIsLoading(true);
+    try {
+      const data = await fetchWithSession<{ pledges: Pledge[] }>(
+        "/api/pledges",
+        { cache: "no-store" },
+      );
+      setPledges(data.pledges);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load pledges");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fid]);
+
+  const createPledge = useCallback(
+    async (pledge: {
+      campaign: string;
+      asset: string;
+      amount: string;
+      cadence: PledgeCadence;
+      paymentId?: string;
+    }) => {
+      if (!fid) throw new Error("Sign in with Farcaster to pledge");
+      const data = await fetchWithSession<{ pledge: Pledge }>("/api/pledges", {
+        method: "POST",
+        body: JSON.stringify(pledge),
+      });
+      await refresh();
+      return data.pledge;
+    },
+    [fid, refresh],
+  );
+
+  const cancelPledge = useCallback(
+    async (id: string) => {
+      if (!fid) return;
+      await fetchWithSession(`/api/pledges?id=${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      await refresh();
+    },
+    [fid, refresh],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { pledges, isLoading, error, refresh, createPledge, cancelPledge };
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ProjectUpdate } from "~/lib/project-updates";
+
+/**
+ * Hook to load a campaign's updates from /api/updates
+ */
+export function useProjectUpdates(campaign: string) {
+  const [updates, setUpdates] = useState<ProjectUpdate[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/updates?campaign=${encodeURIComponent(campaign)}`,
+        { cache: "no-store" },
+      );
+      if (!res.ok) throw new Error(`API Error: ${res.status}`);
+      const data: { updates: ProjectUpdate[] } = await res.json();
+      setUpdates(data.updates);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load updates");
+    }
+  }, [campaign]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { updates, error, refresh };
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
+import type { Session } from "~/lib/farcaster-auth";
+
+/**
+ * Fetch JSON from a route that needs a session, sending the user's Quick Auth
+ * token. The Farcaster client asks the user to sign in the first time.
+ * @throws with the route's error message when the request fails
+ */
+export async function fetchWithSession<T>(
+  path: string,
+  init?: RequestInit,
+): Promise<T> {
+  const res = await sdk.quickAuth.fetch(path, {
+    ...init,
+    headers:
+      typeof init?.body === "string"
+        ? { "Content-Type": "application/json", ...init.headers }
+        : init?.headers,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `API Error: ${res.status}`);
+  return data as T;
+}
+
+/**
+ * Upload a file through /api/upload and return its public URL
+ * @param folder - storage folder, e.g. "updates" or "receipts"
+ */
+export async function uploadWithSession(
+  file: File,
+  folder: string,
+): Promise<string> {
+  // Storage refuses to overwrite, so give every file a unique name
+  const name = `${folder}/${Date.now()}-${file.name.replace(/[^\w.-]/g, "_")}`;
+  const formData = new FormData();
+  formData.append("file", new File([file], name, { type: file.type }));
+
+  const { publicUrl } = await fetchWithSession<{ publicUrl: string }>(
+    "/api/upload",
+    { method: "POST", body: formData },
+  );
+  return publicUrl;
+}
+
+/**
+ * Hook to sign in with Quick Auth and get the FID the server verified.
+ * Unlike `context.user` from useMiniAppSdk, this can be trusted by the server.
+ */
+export function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = useCallback(async () => {
+    setIsSigningIn(true);
+    try {
+      const verified = await fetchWithSession<Session>("/api/session");
+      setSession(verified);
+      setError(null);
+      return verified;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+      return null;
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, []);
+
+  return { session, isSigningIn, error, signIn };
+}
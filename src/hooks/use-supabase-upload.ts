@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
+import sdk from "@farcaster/miniapp-sdk";
 import {
   type FileError,
   type FileRejection,
@@ -130,7 +131,8 @@ const useSupabaseUpload = (options: UseSupabaseUploadOptions) => {
       filesToUpload.map(async (file) => {
         const formData = new FormData();
         formData.append("file", file);
-        const res = await fetch("/api/upload", {
+        // Uploads need a Quick Auth session
+        const res = await sdk.quickAuth.fetch("/api/upload", {
           method: "POST",
           body: formData,
         });
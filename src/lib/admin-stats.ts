@@ -0,0 +1,121 @@
+import { formatAddress } from "~/lib/address-utils";
+import { findCampaignAsset, getAssetKey, type Campaign } from "~/lib/campaigns";
+import { getAllDonations } from "~/lib/donation-indexer";
+import {
+  getDonationUsdValue,
+  summarizeDonations,
+  type DonationProgress,
+} from "~/lib/donations";
+import { applyMatchingPools, type MatchingPoolStatus } from "~/lib/matching";
+import { listNotificationFids } from "~/lib/notifications";
+import { getHiddenNotes, listCampaignPayments } from "~/lib/payment-store";
+import {
+  getDonorVisibility,
+  type DonorNote,
+  type PaymentRecord,
+  type PaymentStatus,
+} from "~/lib/payments";
+
+export type AssetTotal = {
+  /** Asset key, e.g. "8453:0x8335..." */
+  asset: string;
+  symbol: string;
+  chainId: number;
+  donations: number;
+  /** Sum of the formatted token amounts */
+  amount: number;
+  usd: number;
+};
+
+/** A note left with a completed donation, public or for the creators only */
+export type DonorNoteEntry = DonorNote & {
+  paymentId: string;
+  /** As the donor chose to be shown, e.g. "FID 3", "0x12...cdef" or "Anonymous" */
+  donor: string;
+  amountUsd: string;
+  createdAt: number;
+  /** Hidden by a creator, so the donor wall leaves it out */
+  hidden: boolean;
+};
+
+export type CampaignStats = {
+  progress: DonationProgress;
+  donations: number;
+  assets: AssetTotal[];
+  /** Payments seen through Daimo Pay, by status */
+  payments: Partial<Record<PaymentStatus, number>>;
+  notificationSubscribers: number;
+  matchingPools: MatchingPoolStatus[];
+  /** Newest first */
+  notes: DonorNoteEntry[];
+};
+
+const getDonorLabel = (payment: PaymentRecord) => {
+  const visibility = getDonorVisibility(payment);
+  if (visibility === "farcaster" && payment.fid) return `FID ${payment.fid}`;
+  if (visibility !== "anonymous" && payment.payerAddress) {
+    return formatAddress(payment.payerAddress);
+  }
+  return "Anonymous";
+};
+
+/**
+ * Donation stats for the creator dashboard, from the indexed donations
+ * and stored payments
+ */
+export async function getCampaignStats(campaign: Campaign): Promise<CampaignStats> {
+  const [donations, payments, subscribers, hiddenNotes] = await Promise.all([
+    getAllDonations(campaign),
+    listCampaignPayments(campaign.slug),
+    listNotificationFids(),
+    getHiddenNotes(campaign.slug),
+  ]);
+
+  const assets = new Map<string, AssetTotal>();
+  for (const donation of donations) {
+    const asset = findCampaignAsset(campaign, donation.chainId, donation.token);
+    const key = asset ? getAssetKey(asset) : `${donation.chainId}:${donation.token}`;
+    const total = assets.get(key) ?? {
+      asset: key,
+      symbol: donation.symbol,
+      chainId: donation.chainId,
+      donations: 0,
+      amount: 0,
+      usd: 0,
+    };
+    total.donations += 1;
+    total.amount += Number(donation.amount);
+    total.usd += getDonationUsdValue(donation, campaign);
+    assets.set(key, total);
+  }
+
+  const paymentCounts: CampaignStats["payments"] = {};
+  for (const payment of payments) {
+    paymentCounts[payment.status] = (paymentCounts[payment.status] || 0) + 1;
+  }
+
+  return {
+    progress: summarizeDonations(donations, campaign),
+    donations: donations.length,
+    assets: [...assets.values()],
+    payments: paymentCounts,
+    notificationSubscribers: subscribers.length,
+    matchingPools: applyMatchingPools(
+      donations.map((donation) => ({
+        usd: getDonationUsdValue(donation, campaign),
+        timestamp: donation.timestamp,
+      })),
+      campaign.matchingPools,
+    ).pools,
+    notes: payments
+      .filter((payment) => payment.status === "completed" && payment.note)
+      .map((payment) => ({
+        ...payment.note!,
+        paymentId: payment.paymentId,
+        donor: getDonorLabel(payment),
+        amountUsd: payment.amountUsd,
+        createdAt: payment.createdAt,
+        hidden: hiddenNotes.has(payment.paymentId),
+      })),
+  };
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from "crypto";
+import type { Broadcast, BroadcastDelivery } from "~/lib/broadcasts";
+import { kv } from "~/lib/kv";
+
+const broadcastKey = (id: string) => `broadcasts:${id}`;
+// Broadcast ids per campaign, mapped to true
+const campaignBroadcastsKey = (campaign: string) => `broadcasts:campaign:${campaign}`;
+// Ids of broadcasts still scheduled, mapped to their campaign (null once done)
+const scheduledBroadcastsKey = "broadcasts:scheduled";
+// Claim per occurrence, so each goes out once across overlapping runs
+const occurrenceClaimKey = (id: string, occurrence: string) =>
+  `broadcasts:claims:${id}:${occurrence}`;
+
+export async function getBroadcast(id: string): Promise<Broadcast | null> {
+  return kv.get(broadcastKey(id));
+}
+
+async function saveBroadcast(broadcast: Broadcast): Promise<void> {
+  await kv.set(broadcastKey(broadcast.id), broadcast);
+  await kv.merge(scheduledBroadcastsKey, {
+    [broadcast.id]: broadcast.status === "scheduled" ? broadcast.campaign : null,
+  });
+}
+
+export async function createBroadcast(
+  broadcast: Omit<Broadcast, "id" | "status" | "deliveries" | "createdAt">,
+): Promise<Broadcast> {
+  const created: Broadcast = {
+    ...broadcast,
+    id: randomUUID(),
+    status: "scheduled",
+    deliveries: [],
+    createdAt: Date.now(),
+  };
+  await saveBroadcast(created);
+  await kv.merge(campaignBroadcastsKey(created.campaign), { [created.id]: true });
+  return created;
+}
+
+/**
+ * A campaign's broadcasts, newest first
+ */
+export async function listCampaignBroadcasts(campaign: string): Promise<Broadcast[]> {
+  const ids: Record<string, true> | null = await kv.get(
+    campaignBroadcastsKey(campaign),
+  );
+  const broadcasts = await Promise.all(Object.keys(ids || {}).map(getBroadcast));
+  return broadcasts
+    .filter((broadcast): broadcast is Broadcast => broadcast !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Every broadcast that may still go out
+ */
+export async function listScheduledBroadcasts(): Promise<Broadcast[]> {
+  const index: Record<string, string | null> | null = await kv.get(
+    scheduledBroadcastsKey,
+  );
+  const ids = Object.entries(index || {})
+    .filter(([, campaign]) => campaign !== null)
+    .map(([id]) => id);
+  const broadcasts = await Promise.all(ids.map(getBroadcast));
+  return broadcasts.filter(
+    (broadcast): broadcast is Broadcast => broadcast?.status === "scheduled",
+  );
+}
+
+export async function cancelBroadcast(id: string): Promise<Broadcast | null> {
+  const broadcast = await getBroadcast(id);
+  if (!broadcast || broadcast.status !== "scheduled") return broadcast;
+  const cancelled: Broadcast = { ...broadcast, status: "cancelled" };
+  await saveBroadcast(cancelled);
+  return cancelled;
+}
+
+export async function finishBroadcast(broadcast: Broadcast): Promise<void> {
+  await saveBroadcast({ ...broadcast, status: "done" });
+}
+
+/**
+ * Claim an occurrence for sending. Only the first claim succeeds, so two
+ * overlapping cron runs can't both send it.
+ */
+export async function claimBroadcastOccurrence(
+  id: string,
+  occurrence: string,
+): Promise<boolean> {
+  const key = occurrenceClaimKey(id, occurrence);
+  // Claims released before kv had `del` were reset to 0 rather than removed
+  return (
+    (await kv.setIfAbsent(key, true)) || (await kv.compareAndSet(key, 0, true))
+  );
+}
+
+/**
+ * Give up a claim after sending failed, so the next run tries again
+ */
+export async function releaseBroadcastOccurrence(
+  id: string,
+  occurrence: string,
+): Promise<void> {
+  await kv.del(occurrenceClaimKey(id, occurrence));
+}
+
+/**
+ * Store the delivery report, re-reading the broadcast so a cancellation made
+ * while it was sending is kept
+ */
+export async function recordBroadcastDelivery(
+  id: string,
+  delivery: BroadcastDelivery,
+  finished: boolean,
+): Promise<Broadcast | null> {
+  const broadcast = await getBroadcast(id);
+  if (!broadcast) return null;
+  const updated: Broadcast = {
+    ...broadcast,
+    deliveries: [...broadcast.deliveries, delivery],
+    status: finished && broadcast.status === "scheduled" ? "done" : broadcast.status,
+  };
+  await saveBroadcast(updated);
+  return updated;
+}
@@ -0,0 +1,236 @@
+import type { Campaign } from "~/lib/campaigns";
+import type { DonationProgress } from "~/lib/donations";
+import { DEFAULT_LOCALE, formatDate, formatUsd } from "~/lib/i18n";
+import type { NotificationCategory } from "~/lib/notification-preferences";
+import type { SendNotificationResult } from "~/lib/notifications";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When a broadcast goes out:
+ * - `at`: once, at a set time
+ * - `weekly`: every week from `startsAt` until the campaign deadline
+ * - `goal_reached`: once, the first run after donations cover the goal
+ * - `before_deadline`: once, `hours` before the campaign deadline
+ */
+export type BroadcastTrigger =
+  | { kind: "at"; at: number }
+  | { kind: "weekly"; startsAt: number }
+  | { kind: "goal_reached" }
+  | { kind: "before_deadline"; hours: number };
+
+export type BroadcastTriggerKind = BroadcastTrigger["kind"];
+
+/** How one occurrence of a broadcast went */
+export type BroadcastDelivery = {
+  /** Which occurrence, e.g. "once", "goal" or "week-3" for weekly broadcasts */
+  occurrence: string;
+  notificationId: string;
+  /** Title and body after the campaign variables were filled in */
+  title: string;
+  body: string;
+  sentAt: number;
+  results: Partial<Record<SendNotificationResult, number>>;
+};
+
+export type Broadcast = {
+  id: string;
+  campaign: string;
+  /** May contain campaign variables, e.g. "{percent}% funded" */
+  title: string;
+  body: string;
+  /** Page opened from the notification, e.g. /campaign/lensenia */
+  path: string;
+  /** Users who turned the category off don't get the broadcast */
+  category: NotificationCategory;
+  trigger: BroadcastTrigger;
+  /** "done" once a one-off broadcast went out or a weekly one passed the deadline */
+  status: "scheduled" | "done" | "cancelled";
+  /** Oldest first */
+  deliveries: BroadcastDelivery[];
+  createdBy: number;
+  createdAt: number;
+};
+
+/** A broadcast as listed in /admin, with when it next goes out */
+export type ScheduledBroadcast = Broadcast & { nextAt: number | null };
+
+export type BroadcastTemplate = {
+  id: string;
+  label: string;
+  title: string;
+  body: string;
+  category: NotificationCategory;
+  trigger: BroadcastTriggerKind;
+};
+
+/** Variables templates can use, e.g. "{campaign} is {percent}% funded" */
+export const BROADCAST_VARIABLES = [
+  "campaign",
+  "raised",
+  "goal",
+  "remaining",
+  "percent",
+  "donors",
+  "deadline",
+] as const;
+
+export type BroadcastVariables = Record<
+  (typeof BROADCAST_VARIABLES)[number],
+  string
+>;
+
+export const BROADCAST_TEMPLATES: BroadcastTemplate[] = [
+  {
+    id: "goal_reached",
+    label: "Goal reached",
+    title: "We reached our goal!",
+    body: "{campaign} raised {raised} from {donors} donors. Thank you for making it happen!",
+    category: "milestones",
+    trigger: "goal_reached",
+  },
+  {
+    id: "weekly_progress",
+    label: "Weekly progress",
+    title: "{percent}% funded this week",
+    body: "{campaign} has raised {raised} of {goal}. {remaining} to go, every donation counts.",
+    category: "milestones",
+    trigger: "weekly",
+  },
+  {
+    id: "ends_soon",
+    label: "Ends in 24 hours",
+    title: "24 hours left to give",
+    body: "{campaign} closes on {deadline} and still needs {remaining}. Tap to donate.",
+    category: "milestones",
+    trigger: "before_deadline",
+  },
+];
+
+/**
+ * Campaign variables for templates, from the current progress
+ */
+export function getBroadcastVariables(
+  campaign: Campaign,
+  progress: Pick<DonationProgress, "goal" | "raised" | "matched" | "percent" | "donorCount">,
+): BroadcastVariables {
+  const usd = (value: number) =>
+    formatUsd(value, DEFAULT_LOCALE, { maximumFractionDigits: 0 });
+  return {
+    campaign: campaign.title,
+    raised: usd(progress.raised + progress.matched),
+    goal: usd(progress.goal),
+    remaining: usd(Math.max(0, progress.goal - progress.raised - progress.matched)),
+    percent: String(Math.floor(progress.percent)),
+    donors: String(progress.donorCount),
+    deadline: campaign.deadline
+      ? formatDate(campaign.deadline, DEFAULT_LOCALE, {
+          dateStyle: "medium",
+          timeZone: "UTC",
+        })
+      : "",
+  };
+}
+
+/**
+ * Fill in {variables}; unknown ones are left as written
+ */
+export function renderBroadcastText(
+  text: string,
+  variables: BroadcastVariables,
+): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in variables ? variables[name as keyof BroadcastVariables] : match,
+  );
+}
+
+/**
+ * When the broadcast is next due, or null if it waits on the goal or will not
+ * go out again. Weekly broadcasts return the current week's time once due.
+ */
+export function getNextBroadcastTime(
+  broadcast: Pick<Broadcast, "trigger" | "deliveries" | "status">,
+  campaign: Pick<Campaign, "deadline">,
+  now = Date.now(),
+): number | null {
+  if (broadcast.status !== "scheduled") return null;
+  const { trigger } = broadcast;
+  const deadline = campaign.deadline ? new Date(campaign.deadline).getTime() : null;
+
+  switch (trigger.kind) {
+    case "at":
+      return broadcast.deliveries.length === 0 ? trigger.at : null;
+    case "weekly": {
+      const week = Math.max(0, Math.floor((now - trigger.startsAt) / WEEK_MS));
+      const sent = broadcast.deliveries.some(
+        (delivery) => delivery.occurrence === `week-${week}`,
+      );
+      const next = trigger.startsAt + (sent ? week + 1 : week) * WEEK_MS;
+      return deadline !== null && next >= deadline ? null : next;
+    }
+    case "before_deadline":
+      return deadline !== null && broadcast.deliveries.length === 0
+        ? deadline - trigger.hours * HOUR_MS
+        : null;
+    case "goal_reached":
+      return null;
+  }
+}
+
+/**
+ * The occurrence of the broadcast that should go out now, if any.
+ * Missed weeks are not caught up; only the current one is sent.
+ */
+export function getDueOccurrence(
+  broadcast: Broadcast,
+  campaign: Pick<Campaign, "deadline">,
+  progress: Pick<DonationProgress, "percent">,
+  now = Date.now(),
+): string | null {
+  if (broadcast.status !== "scheduled") return null;
+  const { trigger } = broadcast;
+  const delivered = (occurrence: string) =>
+    broadcast.deliveries.some((delivery) => delivery.occurrence === occurrence);
+
+  switch (trigger.kind) {
+    case "at":
+      return now >= trigger.at && !delivered("once") ? "once" : null;
+    case "goal_reached":
+      return progress.percent >= 100 && !delivered("goal") ? "goal" : null;
+    case "before_deadline": {
+      if (!campaign.deadline || delivered("deadline")) return null;
+      const deadline = new Date(campaign.deadline).getTime();
+      return now >= deadline - trigger.hours * HOUR_MS && now < deadline
+        ? "deadline"
+        : null;
+    }
+    case "weekly": {
+      if (now < trigger.startsAt) return null;
+      if (campaign.deadline && now >= new Date(campaign.deadline).getTime()) {
+        return null;
+      }
+      const occurrence = `week-${Math.floor((now - trigger.startsAt) / WEEK_MS)}`;
+      return delivered(occurrence) ? null : occurrence;
+    }
+  }
+}
+
+/**
+ * Whether the broadcast can never be due again after this point
+ */
+export function isBroadcastFinished(
+  broadcast: Broadcast,
+  campaign: Pick<Campaign, "deadline">,
+  now = Date.now(),
+): boolean {
+  if (broadcast.trigger.kind === "weekly") {
+    return (
+      !!campaign.deadline && now >= new Date(campaign.deadline).getTime()
+    );
+  }
+  if (broadcast.trigger.kind === "before_deadline" && campaign.deadline) {
+    if (now >= new Date(campaign.deadline).getTime()) return true;
+  }
+  return broadcast.deliveries.length > 0;
+}
@@ -0,0 +1,119 @@
+import type { Address } from "viem";
+import type { ExchangeRateTable } from "~/lib/currency";
+import {
+  getCampaign,
+  getCampaignFromParams,
+  getDefaultCampaign,
+  type Campaign,
+  type MatchingPool,
+} from "~/lib/campaigns";
+import { kv } from "~/lib/kv";
+
+/**
+ * Campaign fields the creator can change from /admin without a redeploy.
+ * Anything left out keeps the value from src/lib/campaigns.ts.
+ */
+export type CampaignSettings = {
+  /** Fundraising goal in USD */
+  goal?: number;
+  /** Receives new donations; indexing continues from where it stopped */
+  recipient?: Address;
+  /** Every recipient replaced so far, kept when `recipient` changes */
+  pastRecipients?: Address[];
+  /** Preset amounts in USD, used for stablecoin assets */
+  presetAmounts?: number[];
+  /** Replaces the whole table of local currencies and their rates */
+  exchangeRates?: ExchangeRateTable;
+  /** Replaces the sponsor matching pools, so sponsors can join without a redeploy */
+  matchingPools?: MatchingPool[];
+};
+
+const settingsKey = (slug: string) => `campaigns:${slug}:settings`;
+
+export async function getCampaignSettings(
+  slug: string,
+): Promise<CampaignSettings> {
+  return (await kv.get(settingsKey(slug))) || {};
+}
+
+/**
+ * Update some settings; a null value restores the default from code.
+ * A replaced recipient is remembered, so donations it received still count.
+ */
+export async function updateCampaignSettings(
+  slug: string,
+  patch: { [K in keyof CampaignSettings]?: CampaignSettings[K] | null },
+): Promise<CampaignSettings> {
+  const defaultRecipient = getCampaign(slug)?.recipient;
+  if (patch.recipient !== undefined && defaultRecipient) {
+    const current = await getCampaignSettings(slug);
+    const previous = current.recipient ?? defaultRecipient;
+    const next = patch.recipient ?? defaultRecipient;
+    if (previous.toLowerCase() !== next.toLowerCase()) {
+      const pastRecipients = current.pastRecipients ?? [];
+      patch = {
+        ...patch,
+        pastRecipients: pastRecipients.some(
+          (address) => address.toLowerCase() === previous.toLowerCase(),
+        )
+          ? pastRecipients
+          : [...pastRecipients, previous],
+      };
+    }
+  }
+  return kv.merge(settingsKey(slug), patch);
+}
+
+/**
+ * The campaign with the creator's saved settings applied
+ */
+export async function withCampaignSettings(
+  campaign: Campaign,
+): Promise<Campaign> {
+  const {
+    goal,
+    recipient,
+    pastRecipients,
+    presetAmounts,
+    exchangeRates,
+    matchingPools,
+  } = await getCampaignSettings(campaign.slug).catch((error) => {
+    // Serve the defaults from code rather than failing the page
+    console.error("Failed to load campaign settings", error);
+    return {} as CampaignSettings;
+  });
+  return {
+    ...campaign,
+    goal: goal ?? campaign.goal,
+    recipient: recipient ?? campaign.recipient,
+    // Settings saved before replaced recipients were kept still list the
+    // recipient from code
+    pastRecipients:
+      pastRecipients ?? (recipient ? [campaign.recipient] : undefined),
+    presetAmounts: presetAmounts ?? campaign.presetAmounts,
+    exchangeRates: exchangeRates ?? campaign.exchangeRates,
+    matchingPools: matchingPools ?? campaign.matchingPools,
+  };
+}
+
+/**
+ * Find a campaign by slug, with its saved settings
+ */
+export async function loadCampaign(slug: string): Promise<Campaign | undefined> {
+  const campaign = getCampaign(slug);
+  return campaign && withCampaignSettings(campaign);
+}
+
+export async function loadDefaultCampaign(): Promise<Campaign> {
+  return withCampaignSettings(getDefaultCampaign());
+}
+
+/**
+ * Resolve the `campaign` query parameter used by the API routes, with saved settings
+ */
+export async function loadCampaignFromParams(
+  searchParams: URLSearchParams,
+): Promise<Campaign | undefined> {
+  const campaign = getCampaignFromParams(searchParams);
+  return campaign && withCampaignSettings(campaign);
+}
@@ -0,0 +1,249 @@
+import { baseETH, baseUSDC } from "@daimo/contract";
+import { getAddress, zeroAddress, type Address } from "viem";
+import {
+  DONATION_GOAL_USDC,
+  DONATION_RECIPIENT,
+  PROJECT_AVATAR_URL,
+  PROJECT_DESCRIPTION,
+  PROJECT_TITLE,
+} from "~/lib/constants";
+import type { ExchangeRateTable, ImpactRatio } from "~/lib/currency";
+import type { Locale } from "~/lib/i18n";
+
+/**
+ * A token a campaign accepts, on a specific destination chain
+ */
+export type CampaignAsset = {
+  chainId: number;
+  /** ERC-20 address, or the zero address for the chain's native token */
+  address: Address;
+  symbol: string;
+  decimals: number;
+  /** Pegged to USD, so amounts count 1:1 towards the goal */
+  isStablecoin: boolean;
+  /** First block scanned for donations on this chain, as a decimal string */
+  startBlock: string;
+  /** Overrides the campaign presets, e.g. for volatile tokens */
+  presetAmounts?: number[];
+  /** Overrides the default custom amount limits, in token units */
+  limits?: { min: number; max: number; warnAbove: number };
+};
+
+/**
+ * A sponsor's promise to match donations, e.g. 1:1 up to $2,000 until a date.
+ * Pools that run at the same time each match the same donation.
+ */
+export type MatchingPool = {
+  id: string;
+  sponsor: string;
+  sponsorUrl?: string;
+  /** Sponsor dollars per donated dollar, 1 for 1:1 */
+  ratio: number;
+  /** Most the sponsor will contribute, in USD */
+  capUsd: number;
+  /** ISO 8601 dates the pool runs between */
+  startsAt: string;
+  endsAt: string;
+};
+
+/** Campaign text that is written separately for each language */
+export type CampaignText = {
+  title: string;
+  description: string;
+  shareText: string;
+};
+
+export type Campaign = {
+  /** URL segment, e.g. /campaign/lensenia */
+  slug: string;
+  title: string;
+  description: string;
+  recipient: Address;
+  /** Recipients the campaign used before `recipient` was changed from /admin */
+  pastRecipients?: Address[];
+  /** Accepted destination assets; the first one is selected by default */
+  assets: CampaignAsset[];
+  /** Fundraising goal in USD */
+  goal: number;
+  /** ISO 8601 date after which the campaign stops taking donations */
+  deadline?: string;
+  coverImageUrl: string;
+  externalUrl?: string;
+  /** Preset amounts in USD, used for stablecoin assets */
+  presetAmounts: number[];
+  /** Prefilled cast text offered to donors after they give */
+  shareText: string;
+  /** Sponsor matching pledges, stored with the campaign */
+  matchingPools: MatchingPool[];
+  /**
+   * Language of the share embeds and images, which crawlers fetch without
+   * saying which language they want
+   */
+  locale: Locale;
+  /** Text in other languages; the fields above are the English text */
+  translations?: Partial<Record<Locale, CampaignText>>;
+  /**
+   * Local currencies shown next to dollar amounts, first one by default,
+   * with the rates used when no live rate is available
+   */
+  exchangeRates?: ExchangeRateTable;
+  /** What donations pay for, shown under the selected amount */
+  impact?: ImpactRatio[];
+};
+
+export const ASSETS = {
+  baseUSDC: {
+    chainId: baseUSDC.chainId,
+    address: getAddress(baseUSDC.token),
+    symbol: baseUSDC.symbol,
+    decimals: baseUSDC.decimals,
+    isStablecoin: true,
+    // Set DONATION_START_BLOCK to the block the recipient started receiving funds
+    startBlock: process.env.DONATION_START_BLOCK || "32000000",
+  },
+  celoUSDC: {
+    chainId: 42220,
+    address: getAddress("0xcebA9300f2b948710d2653dD7B07f33A8B32118C"),
+    symbol: "USDC",
+    decimals: 6,
+    isStablecoin: true,
+    // Celo L2 migration block
+    startBlock: process.env.DONATION_START_BLOCK_CELO || "31056500",
+  },
+  baseETH: {
+    chainId: baseETH.chainId,
+    address: zeroAddress,
+    symbol: baseETH.symbol,
+    decimals: baseETH.decimals,
+    isStablecoin: false,
+    startBlock: process.env.DONATION_START_BLOCK || "32000000",
+    presetAmounts: [0.002, 0.005, 0.01, 0.02],
+    limits: { min: 0.0003, max: 5, warnAbove: 0.5 },
+  },
+} satisfies Record<string, CampaignAsset>;
+
+export const CAMPAIGNS: Campaign[] = [
+  {
+    slug: "lensenia",
+    title: PROJECT_TITLE,
+    description: PROJECT_DESCRIPTION,
+    recipient: DONATION_RECIPIENT,
+    assets: [ASSETS.baseUSDC, ASSETS.celoUSDC, ASSETS.baseETH],
+    goal: DONATION_GOAL_USDC,
+    coverImageUrl: PROJECT_AVATAR_URL,
+    externalUrl: "https://www.pasosdejesus.org/lensenia/",
+    presetAmounts: [5, 10, 25, 50],
+    shareText:
+      "I just helped fund a clean water well in Lensenia 💧 Every donation brings safe drinking water closer. Join me!",
+    matchingPools: [],
+    locale: "es",
+    translations: {
+      es: {
+        title: "Pozo de agua en Lensenia",
+        description:
+          "Ayuda a financiar un pozo de agua limpia para la comunidad de Lensenia. Cada donación nos acerca a garantizar el acceso a un recurso esencial.",
+        shareText:
+          "Acabo de ayudar a financiar un pozo de agua limpia en Lensenia 💧 Cada donación acerca el agua potable. ¡Únete!",
+      },
+    },
+    exchangeRates: { COP: 4000, EUR: 0.92 },
+    // Rough estimates from the well budget; the creator can refine them here
+    impact: [
+      {
+        perUsd: 28,
+        unit: {
+          en: { one: "liter of clean water", other: "liters of clean water" },
+          es: { one: "litro de agua potable", other: "litros de agua potable" },
+        },
+      },
+      {
+        perUsd: 1 / 25,
+        unit: {
+          en: {
+            one: "week of water for a family",
+            other: "weeks of water for a family",
+          },
+          es: {
+            one: "semana de agua para una familia",
+            other: "semanas de agua para una familia",
+          },
+        },
+      },
+    ],
+  },
+];
+
+export const DEFAULT_CAMPAIGN_SLUG = CAMPAIGNS[0].slug;
+
+/**
+ * Find a campaign by slug
+ */
+export function getCampaign(slug: string): Campaign | undefined {
+  return CAMPAIGNS.find((campaign) => campaign.slug === slug);
+}
+
+/**
+ * The campaign shown on the home page
+ */
+export function getDefaultCampaign(): Campaign {
+  return getCampaign(DEFAULT_CAMPAIGN_SLUG)!;
+}
+
+/**
+ * The campaign with its title, description and share text in the given
+ * language, when it has them
+ */
+export function localizeCampaign(campaign: Campaign, locale: Locale): Campaign {
+  return { ...campaign, ...campaign.translations?.[locale] };
+}
+
+/**
+ * Whether the campaign deadline has passed
+ */
+export function isCampaignClosed(campaign: Campaign, now = Date.now()): boolean {
+  return !!campaign.deadline && new Date(campaign.deadline).getTime() < now;
+}
+
+/**
+ * Stable identifier for an asset, e.g. "8453:0x8335..."
+ */
+export function getAssetKey(asset: Pick<CampaignAsset, "chainId" | "address">) {
+  return `${asset.chainId}:${asset.address.toLowerCase()}`;
+}
+
+/**
+ * Path of the share page for one donation, e.g. /campaign/lensenia/donation/123
+ */
+export function getDonationSharePath(campaignSlug: string, paymentId: string) {
+  return `/campaign/${campaignSlug}/donation/${paymentId}`;
+}
+
+/**
+ * Native tokens move without Transfer logs, so they cannot be indexed from logs
+ */
+export function isNativeAsset(asset: Pick<CampaignAsset, "address">) {
+  return asset.address === zeroAddress;
+}
+
+/**
+ * Find the campaign asset a donation was made in
+ */
+export function findCampaignAsset(
+  campaign: Campaign,
+  chainId: number,
+  address: string,
+): CampaignAsset | undefined {
+  return campaign.assets.find(
+    (asset) => getAssetKey(asset) === getAssetKey({ chainId, address: address as Address }),
+  );
+}
+
+/**
+ * Resolve the `campaign` query parameter used by the API routes,
+ * falling back to the default campaign when it is missing
+ */
+export function getCampaignFromParams(
+  searchParams: URLSearchParams,
+): Campaign | undefined {
+  return getCampaign(searchParams.get("campaign") || DEFAULT_CAMPAIGN_SLUG);
+}
@@ -3,3 +3,20 @@ export const PROJECT_DESCRIPTION = "Help fund a clean water well for the Lenseni
 export const PROJECT_CREATOR = "vtamara";
 export const PROJECT_AVATAR_URL =
   "https://wrpcd.net/cdn-cgi/imagedelivery/BXluQx4ige9GuW0Ia56BHw/37460dae-996e-481a-9c2c-0374da719400/anim=false,fit=contain,f=auto,w=576";
+export const DONATION_RECIPIENT =
+  "0x9c7218a253d1565fc5f2149ba51f0f55f0f27f07" as const;
+// Fundraising goal in USDC, overridable per deployment
+export const DONATION_GOAL_USDC = Number(
+  process.env.NEXT_PUBLIC_DONATION_GOAL_USDC || 5000,
+);
+// Limits for custom donation amounts, in USDC
+export const DONATION_MIN_USDC = Number(
+  process.env.NEXT_PUBLIC_DONATION_MIN_USDC || 1,
+);
+export const DONATION_MAX_USDC = Number(
+  process.env.NEXT_PUBLIC_DONATION_MAX_USDC || 10000,
+);
+// Amounts above this ask the donor to double-check before paying
+export const DONATION_LARGE_AMOUNT_USDC = Number(
+  process.env.NEXT_PUBLIC_DONATION_LARGE_AMOUNT_USDC || 1000,
+);
@@ -0,0 +1,83 @@
+import { DEFAULT_LOCALE, formatNumber, type Locale } from "~/lib/i18n";
+
+/** Units of each currency per US dollar, keyed by ISO 4217 code, e.g. { COP: 4000 } */
+export type ExchangeRateTable = Record<string, number>;
+
+export type ExchangeRates = {
+  rates: ExchangeRateTable;
+  /** "static" for the campaign's own table, else the name of the live source */
+  source: string;
+  /** When the live rates were fetched; absent for the static table */
+  updatedAt?: number;
+};
+
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * What a dollar pays for, e.g. 28 liters of clean water.
+ * A week of water for $25 is `perUsd: 1 / 25` with a unit of "week of water".
+ */
+export type ImpactRatio = {
+  /** Units one US dollar pays for */
+  perUsd: number;
+  /** Unit name by language, singular and plural; English is the fallback */
+  unit: Partial<Record<Locale, { one: string; other: string }>> & {
+    en: { one: string; other: string };
+  };
+};
+
+/**
+ * A dollar amount in a local currency, e.g. "COP 100.000" or "€9.20".
+ * Currencies worth much less than a dollar drop their decimals.
+ */
+export function formatLocalAmount(
+  usd: number,
+  currency: string,
+  rate: number,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const amount = usd * rate;
+  return formatNumber(amount, locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: rate >= 100 || amount >= 1000 ? 0 : 2,
+  });
+}
+
+/**
+ * Impact of a dollar amount in the given language, e.g. "700 liters of clean water"
+ */
+export function formatImpact(
+  usd: number,
+  impact: ImpactRatio,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  const units = usd * impact.perUsd;
+  // Small counts keep a decimal so "0.4 weeks" doesn't round to nothing
+  const rounded = units < 10 ? Math.round(units * 10) / 10 : Math.round(units);
+  const unit = impact.unit[locale] ?? impact.unit.en;
+  const form = new Intl.PluralRules(locale).select(rounded);
+  return `${formatNumber(rounded, locale)} ${form === "one" ? unit.one : unit.other}`;
+}
+
+/**
+ * Parse a rate table typed as "COP=4000, EUR=0.92"
+ * @returns null when any entry is malformed
+ */
+export function parseRateTable(input: string): ExchangeRateTable | null {
+  const table: ExchangeRateTable = {};
+  for (const entry of input.split(",").filter((part) => part.trim())) {
+    const [code, value] = entry.split("=").map((part) => part.trim());
+    const rate = Number(value);
+    if (!CURRENCY_CODE_PATTERN.test(code?.toUpperCase() ?? "")) return null;
+    if (!Number.isFinite(rate) || rate <= 0) return null;
+    table[code.toUpperCase()] = rate;
+  }
+  return table;
+}
+
+export function stringifyRateTable(table: ExchangeRateTable): string {
+  return Object.entries(table)
+    .map(([code, rate]) => `${code}=${rate}`)
+    .join(", ");
+}
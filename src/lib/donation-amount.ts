@@ -0,0 +1,170 @@
+import { formatUnits, parseUnits } from "viem";
+import {
+  DONATION_LARGE_AMOUNT_USDC,
+  DONATION_MAX_USDC,
+  DONATION_MIN_USDC,
+} from "~/lib/constants";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatUsd,
+  type Locale,
+} from "~/lib/i18n";
+
+export type AmountLimits = {
+  min: number;
+  max: number;
+  /** Amounts above this are valid but get a warning */
+  warnAbove: number;
+  /** Token decimals; more precise input is rejected */
+  decimals: number;
+  /** Symbol of a non-USD token; amounts are shown in dollars when omitted */
+  symbol?: string;
+};
+
+export const DEFAULT_AMOUNT_LIMITS: AmountLimits = {
+  min: DONATION_MIN_USDC,
+  max: DONATION_MAX_USDC,
+  warnAbove: DONATION_LARGE_AMOUNT_USDC,
+  decimals: 6,
+};
+
+/**
+ * Format an amount for messages and labels, e.g. "$10", "10 US$" or "0.01 ETH"
+ */
+export function formatTokenAmount(
+  amount: string | number,
+  symbol?: string,
+  locale: Locale = DEFAULT_LOCALE,
+) {
+  return symbol ? `${amount} ${symbol}` : formatUsd(Number(amount), locale);
+}
+
+export type AmountValidation = {
+  isValid: boolean;
+  /** Canonical decimal string, e.g. "7.5" for "007,50" */
+  normalized?: string;
+  error?: string;
+  warning?: string;
+};
+
+/**
+ * Validate a free-form donation amount typed by the donor, with messages
+ * in the given language.
+ * Accepts "," as decimal separator since many donors use it.
+ */
+export function validateDonationAmount(
+  input: string,
+  limits: AmountLimits = DEFAULT_AMOUNT_LIMITS,
+  locale: Locale = DEFAULT_LOCALE,
+): AmountValidation {
+  const t = createTranslator(locale);
+  const format = (amount: string | number) =>
+    formatTokenAmount(amount, limits.symbol, locale);
+  let value = input.trim().replace(/^\$/, "").trim();
+  if (!value) {
+    return { isValid: false, error: t("amount.required") };
+  }
+  if (!value.includes(".") && (value.match(/,/g) || []).length === 1) {
+    value = value.replace(",", ".");
+  }
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(value)) {
+    return { isValid: false, error: t("amount.notANumber") };
+  }
+
+  const fraction = value.split(".")[1] || "";
+  if (fraction.length > limits.decimals) {
+    return {
+      isValid: false,
+      error: t("amount.tooPrecise", { decimals: limits.decimals }),
+    };
+  }
+
+  const units = parseUnits(value, limits.decimals);
+  const normalized = formatUnits(units, limits.decimals);
+
+  if (units < parseUnits(String(limits.min), limits.decimals)) {
+    return {
+      isValid: false,
+      normalized,
+      error: t("amount.belowMin", { amount: format(limits.min) }),
+    };
+  }
+  if (units > parseUnits(String(limits.max), limits.decimals)) {
+    return {
+      isValid: false,
+      normalized,
+      error: t("amount.aboveMax", { amount: format(limits.max) }),
+    };
+  }
+  if (units > parseUnits(String(limits.warnAbove), limits.decimals)) {
+    return {
+      isValid: true,
+      normalized,
+      warning: t("amount.large", { amount: format(normalized) }),
+    };
+  }
+
+  return { isValid: true, normalized };
+}
+
+/**
+ * Presets and the custom field share one selection so only one can be active
+ */
+export type AmountSelection =
+  | { kind: "none" }
+  | { kind: "preset"; amount: number }
+  | { kind: "custom"; input: string };
+
+export type AmountSelectionAction =
+  | { type: "SELECT_PRESET"; payload: number }
+  | { type: "SET_CUSTOM"; payload: string }
+  | { type: "RESET" };
+
+export const initialAmountSelection: AmountSelection = { kind: "none" };
+
+export function amountSelectionReducer(
+  state: AmountSelection,
+  action: AmountSelectionAction,
+): AmountSelection {
+  switch (action.type) {
+    case "SELECT_PRESET":
+      // Tapping the active preset again clears it
+      return state.kind === "preset" && state.amount === action.payload
+        ? initialAmountSelection
+        : { kind: "preset", amount: action.payload };
+
+    case "SET_CUSTOM":
+      // Emptying the field falls back to no selection
+      return action.payload === ""
+        ? initialAmountSelection
+        : { kind: "custom", input: action.payload };
+
+    case "RESET":
+      return initialAmountSelection;
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Resolve the selection to the amount string passed to the payment button
+ */
+export function resolveSelectedAmount(
+  selection: AmountSelection,
+  limits: AmountLimits = DEFAULT_AMOUNT_LIMITS,
+  locale: Locale = DEFAULT_LOCALE,
+): { amount: string | null; validation?: AmountValidation } {
+  if (selection.kind === "preset") {
+    return { amount: String(selection.amount) };
+  }
+  if (selection.kind === "custom") {
+    const validation = validateDonationAmount(selection.input, limits, locale);
+    return {
+      amount: validation.isValid ? validation.normalized! : null,
+      validation,
+    };
+  }
+  return { amount: null };
+}
@@ -0,0 +1,300 @@
+import { parseUnits, type Hex } from "viem";
+import {
+  findCampaignAsset,
+  getAssetKey,
+  isNativeAsset,
+  type Campaign,
+  type CampaignAsset,
+} from "~/lib/campaigns";
+import { getPublicClient } from "~/lib/chains";
+import {
+  fetchDonationTransfers,
+  isDustAmount,
+  summarizeDonations,
+  type DonationProgress,
+  type DonationTransfer,
+} from "~/lib/donations";
+import { kv } from "~/lib/kv";
+import { getCampaignDonationPayers } from "~/lib/payment-store";
+import type { DonationPayer } from "~/lib/payments";
+
+// Each campaign keeps its records under donations:<slug>:*, with one cursor per asset
+const cursorKey = (campaign: Campaign, asset: CampaignAsset) =>
+  `donations:${campaign.slug}:cursor:${getAssetKey(asset)}`;
+const recordsKey = (campaign: Campaign) => `donations:${campaign.slug}:records`;
+const syncedAtKey = (campaign: Campaign) =>
+  `donations:${campaign.slug}:synced_at`;
+
+// Blocks requested per scan step; getLogs splits further if the RPC complains
+const BLOCKS_PER_STEP = BigInt(process.env.DONATION_INDEXER_BLOCKS_PER_STEP || 200000);
+// Stop scanning after this long so a catch-up sync fits in a serverless request
+const SYNC_TIME_BUDGET_MS = 8000;
+
+export type DonationRecord = DonationTransfer & {
+  /** Unique id: `${txHash}:${logIndex}`, or `${txHash}:native` for native tokens */
+  id: string;
+  /** Verified Daimo Pay payment that made the donation, when there is one */
+  paymentId?: string;
+  /** Block timestamp in seconds */
+  timestamp: number;
+};
+
+export type DonationPage = {
+  donations: DonationRecord[];
+  nextCursor?: string;
+  total: number;
+};
+
+type StoredRecords = Record<string, DonationRecord> | null;
+
+type RecordPosition = Pick<
+  DonationRecord,
+  "timestamp" | "chainId" | "blockNumber" | "logIndex"
+>;
+
+/** Shape of `nextCursor`: timestamp:chainId:block:logIndex */
+export const DONATION_CURSOR_PATTERN = /^\d+:\d+:\d+:\d+$/;
+
+const recordCursor = (record: RecordPosition) =>
+  `${record.timestamp}:${record.chainId}:${record.blockNumber}:${record.logIndex}`;
+
+/**
+ * Newest first. Block numbers only compare within one chain, so records
+ * are ordered by timestamp, then chain, block and position in the block.
+ */
+const compareRecords = (a: RecordPosition, b: RecordPosition) => {
+  if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+  if (a.chainId !== b.chainId) return b.chainId - a.chainId;
+  const byBlock = BigInt(b.blockNumber) - BigInt(a.blockNumber);
+  if (byBlock !== BigInt(0)) return byBlock > BigInt(0) ? 1 : -1;
+  return b.logIndex - a.logIndex;
+};
+
+/**
+ * Scan one asset's transfers into the recipient until caught up or past the deadline
+ * @returns the number of new records
+ */
+async function syncAsset(
+  campaign: Campaign,
+  asset: CampaignAsset,
+  deadline: number,
+): Promise<number> {
+  const client = getPublicClient(asset.chainId);
+  const latestBlock = await client.getBlockNumber();
+  const storedCursor: string | null = await kv.get(cursorKey(campaign, asset));
+  let fromBlock = storedCursor
+    ? BigInt(storedCursor) + BigInt(1)
+    : BigInt(asset.startBlock);
+  let added = 0;
+
+  while (fromBlock <= latestBlock && Date.now() < deadline) {
+    const toBlock =
+      fromBlock + BLOCKS_PER_STEP - BigInt(1) < latestBlock
+        ? fromBlock + BLOCKS_PER_STEP - BigInt(1)
+        : latestBlock;
+    const transfers = await fetchDonationTransfers(asset, campaign.recipient, {
+      fromBlock,
+      toBlock,
+    });
+
+    if (transfers.length > 0) {
+      // One getBlock call per distinct block to resolve timestamps
+      const blockNumbers = Array.from(new Set(transfers.map((t) => t.blockNumber)));
+      const blocks = await Promise.all(
+        blockNumbers.map((n) => client.getBlock({ blockNumber: BigInt(n) })),
+      );
+      const timestamps = new Map(
+        blocks.map((block) => [block.number.toString(), Number(block.timestamp)]),
+      );
+
+      const patch: Record<string, DonationRecord> = {};
+      for (const transfer of transfers) {
+        const id = `${transfer.txHash}:${transfer.logIndex}`;
+        patch[id] = {
+          ...transfer,
+          id,
+          timestamp: timestamps.get(transfer.blockNumber) ?? 0,
+        };
+      }
+      await kv.merge(recordsKey(campaign), patch);
+      added += transfers.length;
+    }
+
+    // Only advance the cursor once the records for the range are saved
+    await kv.set(cursorKey(campaign, asset), toBlock.toString());
+    fromBlock = toBlock + BigInt(1);
+  }
+
+  return added;
+}
+
+/**
+ * Scan new token transfers into the campaign recipient and save them in kv.
+ * Records are keyed by tx hash and log index so re-scanning a range is harmless.
+ * Native token donations emit no Transfer log, so those assets are skipped;
+ * getAllDonations adds them from verified payments instead.
+ * @returns the number of new records
+ */
+export async function syncDonations(
+  campaign: Campaign,
+): Promise<{ added: number }> {
+  // All assets share one time budget
+  const deadline = Date.now() + SYNC_TIME_BUDGET_MS;
+  let added = 0;
+
+  for (const asset of campaign.assets) {
+    if (isNativeAsset(asset)) continue;
+    added += await syncAsset(campaign, asset, deadline);
+  }
+
+  await kv.set(syncedAtKey(campaign), Date.now());
+  return { added };
+}
+
+/**
+ * Sync only when the last sync is older than `maxAgeMs`
+ */
+export async function syncDonationsIfStale(
+  campaign: Campaign,
+  maxAgeMs = 30000,
+) {
+  const syncedAt: number | null = await kv.get(syncedAtKey(campaign));
+  if (syncedAt && Date.now() - syncedAt < maxAgeMs) return;
+  try {
+    await syncDonations(campaign);
+  } catch (error) {
+    // Serve what is already indexed rather than failing the request
+    console.error("Donation sync failed", error);
+  }
+}
+
+/**
+ * Donations in the campaign's native assets, which only verified Daimo Pay
+ * payments tell us about. They sort after any log in the same second.
+ */
+function getNativeDonations(
+  campaign: Campaign,
+  payers: Record<string, DonationPayer>,
+): DonationRecord[] {
+  const records: DonationRecord[] = [];
+  for (const [txHash, payer] of Object.entries(payers)) {
+    const { destination } = payer;
+    const asset = findCampaignAsset(
+      campaign,
+      destination.chainId,
+      destination.tokenAddress,
+    );
+    if (!asset || !isNativeAsset(asset)) continue;
+    // The payment names its campaign itself, so check the money reached one
+    // of the addresses the campaign has received donations at
+    const recipients = [campaign.recipient, ...(campaign.pastRecipients ?? [])];
+    if (
+      !recipients.some(
+        (recipient) =>
+          recipient.toLowerCase() === destination.address.toLowerCase(),
+      )
+    ) {
+      continue;
+    }
+    records.push({
+      id: `${txHash}:native`,
+      donor: payer.address,
+      chainId: asset.chainId,
+      token: asset.address,
+      symbol: asset.symbol,
+      amountUnits: parseUnits(destination.amount, asset.decimals).toString(),
+      amount: destination.amount,
+      txHash: txHash as Hex,
+      logIndex: 0,
+      blockNumber: "0",
+      timestamp: Math.floor(payer.completedAt / 1000),
+      paymentId: payer.paymentId,
+      amountUsd: payer.amountUsd,
+    });
+  }
+  return records;
+}
+
+/**
+ * All indexed donations, newest first. Dust indexed before it was filtered
+ * out is skipped here. Donations delivered by a verified Daimo Pay payment
+ * are credited to the address that paid, not to Daimo Pay's sender, and
+ * native-token donations come from those payments.
+ */
+export async function getAllDonations(
+  campaign: Campaign,
+): Promise<DonationRecord[]> {
+  const [stored, payers] = await Promise.all([
+    kv.get(recordsKey(campaign)) as Promise<StoredRecords>,
+    getCampaignDonationPayers(campaign.slug),
+  ]);
+  const indexed = Object.values(stored || {})
+    .filter((record) => {
+      const asset = findCampaignAsset(campaign, record.chainId, record.token);
+      const units = BigInt(record.amountUnits);
+      return asset ? !isDustAmount(units, asset) : units > BigInt(0);
+    })
+    .map((record) => {
+      const payer = payers[record.txHash.toLowerCase()];
+      return payer
+        ? {
+            ...record,
+            donor: payer.address,
+            paymentId: payer.paymentId,
+            amountUsd: payer.amountUsd,
+          }
+        : record;
+    });
+  return [...indexed, ...getNativeDonations(campaign, payers)].sort(
+    compareRecords,
+  );
+}
+
+/**
+ * One page of donations, newest first.
+ * @param cursor - `nextCursor` from the previous page
+ * @param limit - page size
+ */
+export async function listDonations(
+  campaign: Campaign,
+  {
+    cursor,
+    limit = 20,
+  }: {
+    cursor?: string;
+    limit?: number;
+  } = {},
+): Promise<DonationPage> {
+  const all = await getAllDonations(campaign);
+  let start = 0;
+  if (cursor) {
+    // Resume after the cursor position even if that record is gone
+    const [timestamp, chainId, blockNumber, logIndex] = cursor.split(":");
+    const position: RecordPosition = {
+      timestamp: Number(timestamp),
+      chainId: Number(chainId),
+      blockNumber,
+      logIndex: Number(logIndex),
+    };
+    start = all.findIndex((record) => compareRecords(position, record) < 0);
+    if (start === -1) start = all.length;
+  }
+  const donations = all.slice(start, start + limit);
+  const hasMore = start + limit < all.length;
+
+  return {
+    donations,
+    nextCursor: hasMore ? recordCursor(donations[donations.length - 1]) : undefined,
+    total: all.length,
+  };
+}
+
+/**
+ * Goal progress computed from the indexed donations
+ */
+export async function getIndexedDonationProgress(
+  campaign: Campaign,
+): Promise<DonationProgress> {
+  return summarizeDonations(await getAllDonations(campaign), campaign);
+}
+
@@ -0,0 +1,101 @@
+import { formatAddress } from "~/lib/address-utils";
+import { findCampaignAsset, type Campaign } from "~/lib/campaigns";
+import {
+  fetchFarcasterUsersByAddresses,
+  fetchFarcasterUsersByFids,
+  type FarcasterUser,
+} from "~/lib/neynar";
+import { formatUsd } from "~/lib/i18n";
+import { getPayment } from "~/lib/payment-store";
+import { getDonorVisibility, type PaymentRecord } from "~/lib/payments";
+
+export type DonationShare = {
+  /**
+   * Null when the payment is unknown, belongs to another campaign or was not
+   * confirmed by Daimo Pay yet
+   */
+  payment: PaymentRecord | null;
+  /** Null when the donor is unknown or chose to stay anonymous */
+  donorName: string | null;
+  avatarUrl: string | null;
+  /** In the campaign's language, e.g. "$10", "10 US$" or "0.01 ETH" */
+  amountLabel: string | null;
+};
+
+// Profiles change rarely and share images are fetched often
+const PROFILE_REVALIDATE_SECONDS = 3600;
+
+/**
+ * Farcaster profile of the payer: by the fid recorded with the payment,
+ * else by the paying address
+ */
+export async function findDonorProfile(
+  payment: PaymentRecord,
+  apiKey: string,
+): Promise<FarcasterUser | undefined> {
+  const init = { next: { revalidate: PROFILE_REVALIDATE_SECONDS } };
+  if (payment.fid) {
+    const [user] = await fetchFarcasterUsersByFids([payment.fid], apiKey, init);
+    if (user) return user;
+  }
+  if (payment.payerAddress?.startsWith("0x")) {
+    const users = await fetchFarcasterUsersByAddresses(
+      [payment.payerAddress],
+      apiKey,
+      init,
+    );
+    return users.get(payment.payerAddress.toLowerCase())?.[0];
+  }
+  return undefined;
+}
+
+/**
+ * Everything the share page and its image show about one donation.
+ * Falls back to an anonymous donor when the payment or profile is unknown,
+ * and shows no more than the donor chose to. Browser reports can name any
+ * donor and amount, so only payments confirmed by Daimo Pay are shown.
+ */
+export async function getDonationShare(
+  campaign: Campaign,
+  paymentId: string,
+  apiKey: string | undefined = process.env.NEYNAR_API_KEY,
+): Promise<DonationShare> {
+  const stored = await getPayment(paymentId).catch((error) => {
+    console.error("Failed to load payment", error);
+    return null;
+  });
+  const payment =
+    stored?.campaign === campaign.slug && stored.verified ? stored : null;
+  if (!payment) {
+    return { payment: null, donorName: null, avatarUrl: null, amountLabel: null };
+  }
+
+  const visibility = getDonorVisibility(payment);
+  let profile: FarcasterUser | undefined;
+  if (apiKey && visibility === "farcaster") {
+    profile = await findDonorProfile(payment, apiKey).catch((error) => {
+      console.error("Failed to resolve donor profile", error);
+      return undefined;
+    });
+  }
+
+  const asset = findCampaignAsset(
+    campaign,
+    payment.destination.chainId,
+    payment.destination.tokenAddress,
+  );
+  const amountLabel = asset?.isStablecoin
+    ? formatUsd(Number(payment.destination.amount), campaign.locale)
+    : `${payment.destination.amount} ${payment.destination.tokenSymbol}`;
+
+  return {
+    payment,
+    donorName: profile
+      ? profile.display_name || `@${profile.username}`
+      : payment.payerAddress && visibility !== "anonymous"
+        ? formatAddress(payment.payerAddress)
+        : null,
+    avatarUrl: profile?.pfp_url || null,
+    amountLabel,
+  };
+}
@@ -0,0 +1,195 @@
+import {
+  formatUnits,
+  getAddress,
+  parseAbiItem,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import {
+  findCampaignAsset,
+  type Campaign,
+  type CampaignAsset,
+} from "~/lib/campaigns";
+import { getPublicClient } from "~/lib/chains";
+import {
+  applyMatchingPools,
+  getActiveMatches,
+  type ActiveMatch,
+} from "~/lib/matching";
+
+export const TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+);
+
+export type DonationTransfer = {
+  donor: Address;
+  chainId: number;
+  /** Token contract the donation was made in */
+  token: Address;
+  symbol: string;
+  /** Raw token units as a decimal string (bigint is not JSON serializable) */
+  amountUnits: string;
+  /** Amount formatted with the token decimals, e.g. "10.5" */
+  amount: string;
+  txHash: Hex;
+  logIndex: number;
+  blockNumber: string;
+  /** USD value Daimo Pay reported, for donations made by a verified payment */
+  amountUsd?: string;
+};
+
+export type DonationProgress = {
+  goal: number;
+  /** USD given by donors */
+  raised: number;
+  /** USD sponsors owe through matching pools */
+  matched: number;
+  /** Share of the goal covered by donations and matching, 0-100 */
+  percent: number;
+  donorCount: number;
+  /** Pools that would match a donation made now */
+  activeMatches: ActiveMatch[];
+};
+
+/**
+ * Whether a transfer is too small to count as a donation. Anyone can make a
+ * token emit zero or dust transfers to the recipient, e.g. to plant lookalike
+ * addresses in its history, so those would otherwise show up as donors.
+ * Stablecoin transfers under one cent are dust; other assets only drop zero.
+ */
+export function isDustAmount(
+  units: bigint,
+  asset: Pick<CampaignAsset, "decimals" | "isStablecoin">,
+): boolean {
+  const minUnits =
+    asset.isStablecoin && asset.decimals >= 2
+      ? BigInt(10) ** BigInt(asset.decimals - 2)
+      : BigInt(1);
+  return units < minUnits;
+}
+
+/**
+ * Fetch logs for a block range, splitting it in half whenever the RPC
+ * rejects the range as too large or too many results.
+ */
+async function getTransferLogs(
+  client: PublicClient,
+  asset: CampaignAsset,
+  to: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<DonationTransfer[]> {
+  try {
+    const logs = await client.getLogs({
+      address: asset.address,
+      event: TRANSFER_EVENT,
+      args: { to },
+      fromBlock,
+      toBlock,
+    });
+    return logs
+      .filter((log) => !isDustAmount(log.args.value!, asset))
+      .map((log) => ({
+        donor: getAddress(log.args.from!),
+        chainId: asset.chainId,
+        token: asset.address,
+        symbol: asset.symbol,
+        amountUnits: log.args.value!.toString(),
+        amount: formatUnits(log.args.value!, asset.decimals),
+        txHash: log.transactionHash,
+        logIndex: log.logIndex,
+        blockNumber: log.blockNumber.toString(),
+      }));
+  } catch (error) {
+    if (toBlock <= fromBlock) throw error;
+    const middle = fromBlock + (toBlock - fromBlock) / BigInt(2);
+    const left = await getTransferLogs(client, asset, to, fromBlock, middle);
+    const right = await getTransferLogs(
+      client,
+      asset,
+      to,
+      middle + BigInt(1),
+      toBlock,
+    );
+    return [...left, ...right];
+  }
+}
+
+/**
+ * Read incoming ERC-20 transfers of one asset to a campaign recipient
+ */
+export async function fetchDonationTransfers(
+  asset: CampaignAsset,
+  recipient: Address,
+  {
+    fromBlock = BigInt(asset.startBlock),
+    toBlock,
+  }: {
+    fromBlock?: bigint;
+    toBlock?: bigint;
+  } = {},
+): Promise<DonationTransfer[]> {
+  const client = getPublicClient(asset.chainId);
+  const lastBlock = toBlock ?? (await client.getBlockNumber());
+  if (lastBlock < fromBlock) return [];
+
+  return getTransferLogs(
+    client,
+    asset,
+    getAddress(recipient),
+    fromBlock,
+    lastBlock,
+  );
+}
+
+/**
+ * USD value of a donation. Stablecoins count 1:1. Other assets count at the
+ * value Daimo Pay reported for the payment, or 0 when no verified payment
+ * made the donation.
+ */
+export function getDonationUsdValue(
+  transfer: Pick<DonationTransfer, "chainId" | "token" | "amount" | "amountUsd">,
+  campaign: Campaign,
+): number {
+  const asset = findCampaignAsset(campaign, transfer.chainId, transfer.token);
+  if (asset?.isStablecoin) return Number(transfer.amount);
+  return Number(transfer.amountUsd) || 0;
+}
+
+/**
+ * Summarize donations into goal progress: total raised, sponsor matching,
+ * percent and unique donors. Non-stablecoin donations count at the USD value
+ * of their verified payment.
+ * @param transfers - Donations with their block timestamp in seconds
+ */
+export function summarizeDonations(
+  transfers: (Pick<
+    DonationTransfer,
+    "donor" | "chainId" | "token" | "amount" | "amountUsd"
+  > & {
+    timestamp: number;
+  })[],
+  campaign: Campaign,
+  now = Date.now(),
+): DonationProgress {
+  const donations = transfers.map((t) => ({
+    usd: getDonationUsdValue(t, campaign),
+    timestamp: t.timestamp,
+  }));
+  const raised =
+    Math.round(donations.reduce((sum, d) => sum + d.usd, 0) * 100) / 100;
+  const matching = applyMatchingPools(donations, campaign.matchingPools, now);
+  const donors = new Set(transfers.map((t) => t.donor.toLowerCase()));
+  const { goal } = campaign;
+  const total = raised + matching.matched;
+
+  return {
+    goal,
+    raised,
+    matched: matching.matched,
+    percent: goal > 0 ? Math.min(100, (total / goal) * 100) : 0,
+    donorCount: donors.size,
+    activeMatches: getActiveMatches(matching.pools),
+  };
+}
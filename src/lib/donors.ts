@@ -0,0 +1,134 @@
+import { getAddress } from "viem";
+import type { Campaign } from "~/lib/campaigns";
+import type { DonationRecord } from "~/lib/donation-indexer";
+import { getDonationUsdValue } from "~/lib/donations";
+import type { DonationPrivacy, DonorVisibility } from "~/lib/payments";
+import {
+  fetchFarcasterUsersByAddresses,
+  type UnifiedUser,
+} from "~/lib/neynar";
+
+export type DonorSummary = {
+  /** Null for donors who asked to stay anonymous */
+  user: UnifiedUser | null;
+  visibility: DonorVisibility;
+  /** USD value of all donations from this address */
+  totalAmount: number;
+  donationCount: number;
+  /** Timestamp in seconds of the most recent donation */
+  lastDonatedAt: number;
+  /** Most recent public note left with these donations */
+  note?: string;
+};
+
+// Donor identities change rarely, so Neynar lookups are cached for an hour
+const IDENTITY_REVALIDATE_SECONDS = 3600;
+
+/**
+ * Group donation records by donor address and the visibility chosen for
+ * them, most recent donor first. An address's anonymous donations are never
+ * grouped with its public ones, so they can't be traced back through it.
+ * @param privacy - choices from the payments, by lowercased tx hash
+ */
+export function groupDonationsByDonor(
+  records: DonationRecord[],
+  campaign: Campaign,
+  privacy: Record<string, DonationPrivacy> = {},
+): DonorSummary[] {
+  const byDonor = new Map<
+    string,
+    {
+      address: string;
+      visibility: DonorVisibility;
+      usd: number;
+      count: number;
+      last: number;
+      note?: { text: string; timestamp: number };
+    }
+  >();
+
+  for (const record of records) {
+    const choice = privacy[record.txHash.toLowerCase()];
+    const visibility = choice?.visibility ?? "farcaster";
+    const key = `${visibility}:${record.donor.toLowerCase()}`;
+    const entry = byDonor.get(key) || {
+      address: getAddress(record.donor),
+      visibility,
+      usd: 0,
+      count: 0,
+      last: 0,
+    };
+    entry.usd += getDonationUsdValue(record, campaign);
+    entry.count += 1;
+    entry.last = Math.max(entry.last, record.timestamp);
+    if (
+      choice?.note?.isPublic &&
+      (!entry.note || record.timestamp > entry.note.timestamp)
+    ) {
+      entry.note = { text: choice.note.text, timestamp: record.timestamp };
+    }
+    byDonor.set(key, entry);
+  }
+
+  return Array.from(byDonor.values())
+    .sort((a, b) => b.last - a.last)
+    .map((entry) => ({
+      user:
+        entry.visibility === "anonymous"
+          ? null
+          : {
+              primaryAddress: entry.address,
+              addresses: [entry.address],
+              source: "address" as const,
+            },
+      visibility: entry.visibility,
+      totalAmount: Math.round(entry.usd * 100) / 100,
+      donationCount: entry.count,
+      lastDonatedAt: entry.last,
+      note: entry.note?.text,
+    }));
+}
+
+/**
+ * Attach Farcaster profiles to donors whose address is verified on Farcaster.
+ * Donors that cannot be resolved, or asked to be listed by address or
+ * anonymously, are returned unchanged.
+ */
+export async function resolveDonorIdentities(
+  donors: DonorSummary[],
+  apiKey: string | undefined = process.env.NEYNAR_API_KEY,
+): Promise<DonorSummary[]> {
+  const listed = donors.filter(
+    (donor): donor is DonorSummary & { user: UnifiedUser } =>
+      donor.visibility === "farcaster" && !!donor.user,
+  );
+  if (!apiKey || listed.length === 0) return donors;
+
+  try {
+    const usersByAddress = await fetchFarcasterUsersByAddresses(
+      listed.map((donor) => donor.user.primaryAddress),
+      apiKey,
+      { next: { revalidate: IDENTITY_REVALIDATE_SECONDS } },
+    );
+
+    return donors.map((donor) => {
+      if (donor.visibility !== "farcaster" || !donor.user) return donor;
+      const farcaster = usersByAddress.get(
+        donor.user.primaryAddress.toLowerCase(),
+      )?.[0];
+      if (!farcaster) return donor;
+      return {
+        ...donor,
+        user: {
+          ...donor.user,
+          farcaster,
+          addresses: farcaster.verified_addresses?.eth_addresses || donor.user.addresses,
+          source: "farcaster" as const,
+        },
+      };
+    });
+  } catch (error) {
+    console.error("Failed to resolve donor identities", error);
+    return donors;
+  }
+}
@@ -1,3 +1,5 @@
+import { createTranslator, DEFAULT_LOCALE, type Locale } from "~/lib/i18n";
+
 export type ErrorType = 
   | "insufficient-funds"
   | "wrong-network" 
@@ -16,18 +18,24 @@ export interface ParsedError {
 }
 
 /**
- * Parse blockchain errors into user-friendly messages with actionable next steps
+ * Parse blockchain errors into user-friendly messages with actionable next steps,
+ * written in the given language
  */
-export function parseError(error: unknown, context: "approval" | "mint"): ParsedError {
+export function parseError(
+  error: unknown,
+  context: "approval" | "mint",
+  locale: Locale = DEFAULT_LOCALE,
+): ParsedError {
+  const t = createTranslator(locale);
   const errorMessage = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
   
   // User rejected transaction
   if (errorMessage.includes("user rejected") || errorMessage.includes("user denied")) {
     return {
       type: "user-rejected",
-      message: "Transaction cancelled",
-      details: "You rejected the transaction in your wallet",
-      actionText: "Try again"
+      message: t("errors.rejected"),
+      details: t("errors.rejectedDetails"),
+      actionText: t("errors.tryAgain")
     };
   }
   
@@ -40,11 +48,11 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
   ) {
     return {
       type: "insufficient-funds",
-      message: "Insufficient funds",
+      message: t("errors.insufficientFunds"),
       details: context === "approval" 
-        ? "You don't have enough tokens to approve this amount"
-        : "You don't have enough funds to complete this transaction. Check both token balance and ETH for gas.",
-      actionText: "Check wallet balance"
+        ? t("errors.insufficientApproval")
+        : t("errors.insufficientMint"),
+      actionText: t("errors.checkBalance")
     };
   }
   
@@ -56,9 +64,9 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
   ) {
     return {
       type: "wrong-network",
-      message: "Wrong network",
-      details: "Please switch to the correct network in your wallet",
-      actionText: "Switch network"
+      message: t("errors.wrongNetwork"),
+      details: t("errors.wrongNetworkDetails"),
+      actionText: t("errors.switchNetwork")
     };
   }
   
@@ -69,23 +77,23 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
     errorMessage.includes("contract error")
   ) {
     // Try to extract revert reason
-    let details = "The contract rejected this transaction.";
+    let details = t("errors.contractRejected");
     
     if (errorMessage.includes("sold out") || errorMessage.includes("max supply")) {
-      details = "This NFT is sold out or has reached maximum supply.";
+      details = t("errors.soldOut");
     } else if (errorMessage.includes("not started") || errorMessage.includes("not active")) {
-      details = "Minting hasn't started yet or has ended.";
+      details = t("errors.notActive");
     } else if (errorMessage.includes("max per wallet") || errorMessage.includes("exceeds max")) {
-      details = "You've reached the maximum amount allowed per wallet.";
+      details = t("errors.maxPerWallet");
     } else if (errorMessage.includes("allowlist") || errorMessage.includes("not eligible")) {
-      details = "You're not eligible to mint this NFT. Check if it requires an allowlist.";
+      details = t("errors.notEligible");
     }
     
     return {
       type: "contract-error",
-      message: "Transaction failed",
+      message: t("errors.failed"),
       details,
-      actionText: "Try again later"
+      actionText: t("errors.tryLater")
     };
   }
   
@@ -93,9 +101,9 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
   if (errorMessage.includes("allowance") || errorMessage.includes("approve")) {
     return {
       type: "allowance-error",
-      message: "Approval required",
-      details: "You need to approve the contract spend your tokens first",
-      actionText: "Approve tokens"
+      message: t("errors.approvalRequired"),
+      details: t("errors.approvalDetails"),
+      actionText: t("errors.approveTokens")
     };
   }
   
@@ -108,17 +116,17 @@ export function parseError(error: unknown, context: "approval" | "mint"): Parsed
   ) {
     return {
       type: "network-error",
-      message: "Network error",
-      details: "Connection issue with the blockchain. This is usually temporary.",
-      actionText: "Try again"
+      message: t("errors.network"),
+      details: t("errors.networkDetails"),
+      actionText: t("errors.tryAgain")
     };
   }
   
   // Generic fallback
   return {
     type: "unknown",
-    message: "Transaction failed",
-    details: error instanceof Error ? error.message : "An unexpected error occurred",
-    actionText: "Try again"
+    message: t("errors.failed"),
+    details: error instanceof Error ? error.message : t("errors.unexpected"),
+    actionText: t("errors.tryAgain")
   };
 }
\ No newline at end of file
@@ -0,0 +1,109 @@
+import type { Campaign } from "~/lib/campaigns";
+import {
+  CURRENCY_CODE_PATTERN,
+  type ExchangeRates,
+  type ExchangeRateTable,
+} from "~/lib/currency";
+import { kv } from "~/lib/kv";
+
+/**
+ * Where live exchange rates come from. A source returns every rate it knows,
+ * in units per US dollar; campaigns pick the currencies they show.
+ */
+export type ExchangeRateSource = {
+  /** Shown as the origin of the rates and used as the cache key */
+  name: string;
+  fetchRates: () => Promise<ExchangeRateTable>;
+};
+
+type CachedRates = { rates: ExchangeRateTable; fetchedAt: number };
+
+// Rates for display only, so a few hours old is close enough
+const RATES_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+const cacheKey = (source: ExchangeRateSource) => `exchange-rates:${source.name}`;
+
+/**
+ * Source for JSON APIs that answer with `{ rates: { COP: 4000, ... } }` for a
+ * USD base, such as https://open.er-api.com/v6/latest/USD
+ */
+export function createUrlRateSource(url: string): ExchangeRateSource {
+  return {
+    name: new URL(url).hostname,
+    fetchRates: async () => {
+      const res = await fetch(url, { cache: "no-store" });
+      if (!res.ok) throw new Error(`Exchange rate API error: ${res.status}`);
+      const data = await res.json();
+
+      const rates: ExchangeRateTable = {};
+      for (const [code, rate] of Object.entries(data?.rates ?? {})) {
+        if (CURRENCY_CODE_PATTERN.test(code) && typeof rate === "number" && rate > 0) {
+          rates[code] = rate;
+        }
+      }
+      if (Object.keys(rates).length === 0) {
+        throw new Error("Exchange rate API returned no rates");
+      }
+      return rates;
+    },
+  };
+}
+
+/**
+ * The live source set with EXCHANGE_RATES_URL, if any
+ */
+export function getLiveRateSource(): ExchangeRateSource | null {
+  const url = process.env.EXCHANGE_RATES_URL;
+  return url ? createUrlRateSource(url) : null;
+}
+
+/**
+ * Rates from the source, cached in kv. Stale rates are served when the
+ * source fails, and the error is only thrown when nothing is cached.
+ */
+export async function getCachedRates(
+  source: ExchangeRateSource,
+  maxAgeMs = RATES_MAX_AGE_MS,
+  now = Date.now(),
+): Promise<CachedRates> {
+  const cached: CachedRates | null = await kv.get(cacheKey(source));
+  if (cached && now - cached.fetchedAt < maxAgeMs) return cached;
+
+  try {
+    const fresh = { rates: await source.fetchRates(), fetchedAt: now };
+    await kv.set(cacheKey(source), fresh);
+    return fresh;
+  } catch (error) {
+    if (!cached) throw error;
+    console.error("Failed to refresh exchange rates, using cached", error);
+    return cached;
+  }
+}
+
+/**
+ * Rates for the campaign's local currencies: live ones when a source is
+ * configured, else (or for currencies it lacks) the campaign's own table
+ */
+export async function getCampaignExchangeRates(
+  campaign: Campaign,
+  source: ExchangeRateSource | null = getLiveRateSource(),
+): Promise<ExchangeRates> {
+  const table = campaign.exchangeRates ?? {};
+  if (!source || Object.keys(table).length === 0) {
+    return { rates: table, source: "static" };
+  }
+
+  try {
+    const live = await getCachedRates(source);
+    return {
+      rates: Object.fromEntries(
+        Object.entries(table).map(([code, rate]) => [code, live.rates[code] ?? rate]),
+      ),
+      source: source.name,
+      updatedAt: live.fetchedAt,
+    };
+  } catch (error) {
+    console.error("Failed to load live exchange rates", error);
+    return { rates: table, source: "static" };
+  }
+}
@@ -0,0 +1,261 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from "crypto";
+import { NextResponse, type NextRequest } from "next/server";
+import { appUrl } from "~/lib/frame-metadata";
+
+/** Issuer of the tokens returned by `sdk.quickAuth.getToken()` */
+export const QUICK_AUTH_ORIGIN = "https://auth.farcaster.xyz";
+
+// Signing keys are refetched after this long, or sooner for an unknown key id
+const JWKS_MAX_AGE_MS = 60 * 60 * 1000;
+// Unknown key ids refetch at most this often, so forged tokens can't make
+// every request hit the issuer
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+/** Claims of a Quick Auth token */
+export type QuickAuthPayload = {
+  /** The user's Farcaster ID */
+  sub: number;
+  /** Address the user signed in with */
+  address?: string;
+  iss: string;
+  /** Domain the token was issued to */
+  aud: string;
+  exp: number;
+  iat: number;
+};
+
+export type SigningKey = JsonWebKey & { kid?: string; alg?: string };
+
+export type QuickAuthVerifierOptions = {
+  /** Expected `iss`; also where the JWKS is fetched from */
+  origin?: string;
+  /** Expected `aud`, the host the mini app is served from */
+  domain?: string;
+  /**
+   * Signing keys to trust instead of the issuer's JWKS, e.g. a locally
+   * generated key in development
+   */
+  keys?: SigningKey[];
+};
+
+/** The verified user behind a request */
+export type Session = {
+  fid: number;
+  address?: string;
+};
+
+/** Check a JWS signature for the algorithms JWKS keys are published with */
+function verifySignature(
+  alg: string,
+  data: Buffer,
+  key: KeyObject,
+  signature: Buffer,
+): boolean {
+  switch (alg) {
+    case "EdDSA":
+      return verify(null, data, key, signature);
+    case "ES256":
+      return verify("sha256", data, { key, dsaEncoding: "ieee-p1363" }, signature);
+    case "RS256":
+      return verify("sha256", data, key, signature);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a token signed with `alg` may be checked against this key. The
+ * header is chosen by whoever made the token, so it must match the key type.
+ */
+function isKeyForAlgorithm(jwk: SigningKey, alg: string): boolean {
+  if (jwk.alg && jwk.alg !== alg) return false;
+  switch (alg) {
+    case "EdDSA":
+      return jwk.kty === "OKP" && (jwk.crv === "Ed25519" || jwk.crv === "Ed448");
+    case "ES256":
+      return jwk.kty === "EC" && jwk.crv === "P-256";
+    case "RS256":
+      return jwk.kty === "RSA";
+    default:
+      return false;
+  }
+}
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+/**
+ * Create a Quick Auth token verifier. It checks the signature, issuer,
+ * audience and expiry, and resolves null for any token that fails.
+ */
+export function createQuickAuthVerifier({
+  origin = QUICK_AUTH_ORIGIN,
+  domain = new URL(appUrl).host,
+  keys,
+}: QuickAuthVerifierOptions = {}) {
+  let cachedKeys: { keys: SigningKey[]; fetchedAt: number } | null = null;
+  // Requests arriving while the keys are being fetched share that fetch
+  let pendingKeys: Promise<SigningKey[]> | null = null;
+
+  const fetchSigningKeys = async (): Promise<SigningKey[]> => {
+    const response = await fetch(`${origin}/.well-known/jwks.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Quick Auth keys: ${response.status}`);
+    }
+    const jwks: { keys: SigningKey[] } = await response.json();
+    cachedKeys = { keys: jwks.keys, fetchedAt: Date.now() };
+    return jwks.keys;
+  };
+
+  const getSigningKeys = async (refresh = false): Promise<SigningKey[]> => {
+    if (keys) return keys;
+    if (cachedKeys) {
+      const age = Date.now() - cachedKeys.fetchedAt;
+      if (age < (refresh ? JWKS_MIN_REFRESH_MS : JWKS_MAX_AGE_MS)) {
+        return cachedKeys.keys;
+      }
+    }
+    pendingKeys ??= fetchSigningKeys().finally(() => {
+      pendingKeys = null;
+    });
+    return pendingKeys;
+  };
+
+  return async function verifyQuickAuthToken(
+    token: string,
+  ): Promise<QuickAuthPayload | null> {
+    const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+    if (!headerSegment || !payloadSegment || !signatureSegment) return null;
+
+    let header: { alg: string; kid?: string };
+    let payload: QuickAuthPayload;
+    try {
+      header = decodeSegment(headerSegment);
+      payload = decodeSegment(payloadSegment);
+    } catch {
+      return null;
+    }
+
+    const findKey = (candidates: SigningKey[]) =>
+      candidates.find((key) => !header.kid || key.kid === header.kid);
+    const jwk =
+      findKey(await getSigningKeys()) ?? findKey(await getSigningKeys(true));
+    if (!jwk || !isKeyForAlgorithm(jwk, header.alg)) return null;
+
+    const isSigned = verifySignature(
+      header.alg,
+      Buffer.from(`${headerSegment}.${payloadSegment}`),
+      createPublicKey({ key: jwk, format: "jwk" }),
+      Buffer.from(signatureSegment, "base64url"),
+    );
+    if (!isSigned) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      payload.iss !== origin ||
+      payload.aud !== domain ||
+      !(payload.exp > now) ||
+      !Number.isInteger(Number(payload.sub))
+    ) {
+      return null;
+    }
+    return { ...payload, sub: Number(payload.sub) };
+  };
+}
+
+/**
+ * Verifier used by the API routes. QUICK_AUTH_ORIGIN, QUICK_AUTH_DOMAIN and
+ * QUICK_AUTH_JWKS (a JSON key set) override the defaults, which lets a local
+ * server accept tokens from scripts/quick-auth-token.mjs.
+ */
+export const verifyQuickAuthToken = createQuickAuthVerifier({
+  origin: process.env.QUICK_AUTH_ORIGIN || undefined,
+  domain: process.env.QUICK_AUTH_DOMAIN || undefined,
+  keys: process.env.QUICK_AUTH_JWKS
+    ? JSON.parse(process.env.QUICK_AUTH_JWKS).keys
+    : undefined,
+});
+
+/**
+ * The session of the request's `Authorization: Bearer` Quick Auth token
+ * @returns null without a token; "invalid" when a token was sent but failed verification
+ */
+export async function getSession(
+  request: NextRequest,
+): Promise<Session | null | "invalid"> {
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.startsWith("Bearer ")) return null;
+
+  const payload = await verifyQuickAuthToken(authorization.slice(7)).catch(
+    (error) => {
+      console.error("Failed to verify Quick Auth token", error);
+      return null;
+    },
+  );
+  return payload ? { fid: payload.sub, address: payload.address } : "invalid";
+}
+
+// What Next.js passes route handlers as their second argument
+type RouteContext = { params: Promise<Record<string, string | string[]>> };
+
+type SessionHandler<S, C> = (
+  request: NextRequest,
+  session: S,
+  context: C,
+) => Promise<Response>;
+
+/**
+ * Wrap a route handler so it receives the caller's verified session.
+ * Requests without a valid token get a 401. With `optional`, requests
+ * without a token get a null session instead; a bad token is still refused.
+ */
+export function withSession<C = RouteContext>(
+  handler: SessionHandler<Session, C>,
+): (request: NextRequest, context: C) => Promise<Response>;
+export function withSession<C = RouteContext>(
+  handler: SessionHandler<Session | null, C>,
+  options: { optional: true },
+): (request: NextRequest, context: C) => Promise<Response>;
+export function withSession<C = RouteContext>(
+  handler: SessionHandler<Session, C>,
+  { optional = false }: { optional?: boolean } = {},
+) {
+  return async (request: NextRequest, context: C) => {
+    const session = await getSession(request);
+    if (session === "invalid" || (!session && !optional)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    // Only optional handlers, which accept null, get here without a session
+    return handler(request, session as Session, context);
+  };
+}
+
+/**
+ * Creator FIDs from CREATOR_FIDS, e.g. "1234,5678"
+ */
+export function getCreatorFids(): number[] {
+  return (process.env.CREATOR_FIDS || "")
+    .split(",")
+    .map((fid) => Number(fid.trim()))
+    .filter((fid) => Number.isInteger(fid) && fid > 0);
+}
+
+export function isCreatorFid(fid: number): boolean {
+  return getCreatorFids().includes(fid);
+}
+
+/**
+ * Like withSession, for routes only the configured creators may call
+ */
+export function withCreatorSession<C = RouteContext>(
+  handler: SessionHandler<Session, C>,
+) {
+  return withSession<C>((request, session, context) => {
+    if (!isCreatorFid(session.fid)) {
+      return Promise.resolve(
+        NextResponse.json({ error: "Forbidden" }, { status: 403 }),
+      );
+    }
+    return handler(request, session, context);
+  });
+}
@@ -0,0 +1,86 @@
+import type { Metadata } from "next";
+import { localizeCampaign, type Campaign } from "~/lib/campaigns";
+import { translate } from "~/lib/i18n";
+
+export const appUrl =
+  process.env.NEXT_PUBLIC_URL ||
+  `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`;
+
+// DANGER ZONE: CRITICAL Frame v2 metadata - ONLY modify if explicitly requested
+// This frame config is REQUIRED for Farcaster mini app functionality
+// Breaking this will break the entire mini app - modify with extreme caution
+// Safe to change: button.title, splashBackgroundColor, name
+// NEVER change: version, action.type, action structure
+export function buildFrameEmbed({
+  imageUrl,
+  url,
+  name,
+  buttonTitle = "Open",
+}: {
+  imageUrl: string;
+  url: string;
+  name: string;
+  buttonTitle?: string;
+}) {
+  return {
+    version: "next",
+    imageUrl,
+    button: {
+      title: buttonTitle,
+      action: {
+        type: "launch_frame",
+        name,
+        url,
+        splashImageUrl: `${appUrl}/splash.png`,
+        splashBackgroundColor: "#f7f7f7",
+      },
+    },
+  };
+}
+// END DANGER ZONE
+
+/**
+ * Page metadata with the `fc:frame` embed for a campaign page, in the
+ * campaign's language
+ * @param campaign - Campaign shown on the page
+ * @param path - Page path relative to the app URL, "" for the home page
+ * @param options - Title and description overrides, and the path the embed
+ * opens when it differs from the page itself
+ */
+export function buildCampaignMetadata(
+  campaign: Campaign,
+  path: string,
+  {
+    title,
+    description,
+    launchPath = path,
+  }: {
+    title?: string;
+    description?: string;
+    launchPath?: string;
+  } = {},
+): Metadata {
+  const localized = localizeCampaign(campaign, campaign.locale);
+  title ??= localized.title;
+  description ??= localized.description;
+  const frame = buildFrameEmbed({
+    imageUrl: `${appUrl}${path}/opengraph-image`,
+    url: `${appUrl}${launchPath}`,
+    name: localized.title,
+    buttonTitle: translate(campaign.locale, "miniApp.open"),
+  });
+
+  return {
+    title,
+    description,
+    metadataBase: new URL(appUrl),
+    openGraph: {
+      title,
+      description,
+      locale: campaign.locale,
+    },
+    other: {
+      "fc:frame": JSON.stringify(frame),
+    },
+  };
+}
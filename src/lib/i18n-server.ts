@@ -0,0 +1,24 @@
+import { cookies, headers } from "next/headers";
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  matchLocale,
+  parseAcceptLanguage,
+  type Locale,
+} from "~/lib/i18n";
+
+/**
+ * Language for a dynamic server-rendered page: the one chosen in the
+ * language toggle, else the browser's preference.
+ * Makes the page dynamic, so cached pages detect it on the client instead.
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  const chosen = cookieStore.get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return (
+    matchLocale(parseAcceptLanguage(headerList.get("accept-language"))) ??
+    DEFAULT_LOCALE
+  );
+}
@@ -0,0 +1,159 @@
+import { enUS, es as esDateLocale, type Locale as DateLocale } from "date-fns/locale";
+import { en } from "~/lib/messages/en";
+import { es } from "~/lib/messages/es";
+
+export type Locale = "en" | "es";
+
+export const LOCALES: Locale[] = ["en", "es"];
+
+/** Names shown in the language toggle, each in its own language */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+/** Cookie that remembers the language chosen in the toggle */
+export const LOCALE_COOKIE = "locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/** Used when neither the visitor nor their browser asks for a language we have */
+export const DEFAULT_LOCALE: Locale = isLocale(process.env.NEXT_PUBLIC_DEFAULT_LOCALE)
+  ? process.env.NEXT_PUBLIC_DEFAULT_LOCALE
+  : "en";
+
+// Tags for Intl formatting: dollars as "$10.00" in English, "10,00 US$" in Spanish
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-US",
+  es: "es",
+};
+
+const DATE_LOCALES: Record<Locale, DateLocale> = {
+  en: enUS,
+  es: esDateLocale,
+};
+
+type PluralMessage = { one: string; other: string };
+
+export type Messages = typeof en;
+
+/** Dotted path to a message, e.g. "donation.title" */
+export type MessageKey<T = Messages, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+/**
+ * First supported locale among language tags in order of preference,
+ * e.g. ["es-CO", "en"] gives "es"
+ */
+export function matchLocale(tags: readonly string[]): Locale | undefined {
+  for (const tag of tags) {
+    const language = tag.trim().toLowerCase().split(/[-_]/)[0];
+    if (isLocale(language)) return language;
+  }
+  return undefined;
+}
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return [];
+  return header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((param) => param.trim().startsWith("q="));
+      return { tag, weight: q ? Number(q.trim().slice(2)) || 0 : 1 };
+    })
+    .filter(({ tag, weight }) => tag && weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Look up a message and fill in its {placeholders}. Plural messages pick
+ * their form by the `count` value. Unknown keys come back as the key itself.
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  values: MessageValues = {},
+): string {
+  const lookup = (catalog: Messages) =>
+    key
+      .split(".")
+      .reduce<unknown>(
+        (node, part) => (node as Record<string, unknown> | undefined)?.[part],
+        catalog,
+      );
+  let message = lookup(CATALOGS[locale]);
+
+  if (message && typeof message === "object") {
+    const plural = message as PluralMessage;
+    const form = new Intl.PluralRules(INTL_LOCALES[locale]).select(
+      Number(values.count),
+    );
+    message = form === "one" ? plural.one : plural.other;
+  }
+  if (typeof message !== "string") return key;
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  );
+}
+
+export function createTranslator(locale: Locale): Translate {
+  return (key, values) => translate(locale, key, values);
+}
+
+/**
+ * Dollar amount in the locale's style. Whole amounts drop the cents unless
+ * `maximumFractionDigits` says otherwise.
+ */
+export function formatUsd(
+  value: number,
+  locale: Locale,
+  options: Intl.NumberFormatOptions = {},
+): string {
+  return value.toLocaleString(INTL_LOCALES[locale], {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: value % 1 === 0 ? 0 : 2,
+    ...options,
+  });
+}
+
+export function formatNumber(
+  value: number,
+  locale: Locale,
+  options: Intl.NumberFormatOptions = {},
+): string {
+  return value.toLocaleString(INTL_LOCALES[locale], options);
+}
+
+/**
+ * Date in the locale's style, "March 5, 2025" or "5 de marzo de 2025" by default
+ */
+export function formatDate(
+  date: Date | number | string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "long" },
+): string {
+  return new Date(date).toLocaleDateString(INTL_LOCALES[locale], options);
+}
+
+/** date-fns locale, for relative times such as formatDistanceToNow */
+export function getDateLocale(locale: Locale): DateLocale {
+  return DATE_LOCALES[locale];
+}
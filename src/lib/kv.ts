@@ -6,6 +6,18 @@ const supabase = createClient(
 );
 
 const pid = process.env.NEXT_PUBLIC_VIBES_ENGINEERING_PROJECT_ID!;
+
+export type KvSetOptions = {
+  /** Expire the key after this many seconds; it then reads as null */
+  ttlSeconds?: number;
+};
+
+export type KvListPage = {
+  keys: string[];
+  /** Pass to the next `list` call; null once every key was listed */
+  cursor: string | null;
+};
+
 export const kv = {
   get: async (key: string): Promise<any> => {
     // kv_get returns JSONB, which Supabase surfaces as a JavaScript object/primitive
@@ -14,10 +26,78 @@ export const kv = {
     return data; // JSONB value or null
   },
 
-  set: async (key: string, v: any): Promise<void> => {
+  set: async (
+    key: string,
+    v: any,
+    { ttlSeconds }: KvSetOptions = {},
+  ): Promise<void> => {
     // kv_set takes a JSONB argument; if v is a JS primitive/object, Supabase auto‐converts it
-    const { error } = await supabase.rpc("kv_set", { pid, k: key, v });
+    const { error } = await supabase.rpc("kv_set", {
+      pid,
+      k: key,
+      v,
+      ...(ttlSeconds !== undefined && { ttl: ttlSeconds }),
+    });
+    if (error) throw error;
+  },
+
+  del: async (key: string): Promise<boolean> => {
+    // kv_del returns whether the key existed
+    const { data, error } = await supabase.rpc("kv_del", { pid, k: key });
+    if (error) throw error;
+    return data as boolean;
+  },
+
+  list: async (
+    prefix: string,
+    cursor: string | null = null,
+    limit = 100,
+  ): Promise<KvListPage> => {
+    // kv_list returns keys after the cursor in key order, and the cursor for
+    // the next page (null on the last one)
+    const { data, error } = await supabase.rpc("kv_list", {
+      pid,
+      prefix,
+      cursor,
+      lim: limit,
+    });
+    if (error) throw error;
+    return data as KvListPage;
+  },
+
+  setIfAbsent: async (
+    key: string,
+    v: any,
+    { ttlSeconds }: KvSetOptions = {},
+  ): Promise<boolean> => {
+    // kv_set_if_absent returns false, writing nothing, when the key exists
+    const { data, error } = await supabase.rpc("kv_set_if_absent", {
+      pid,
+      k: key,
+      v,
+      ...(ttlSeconds !== undefined && { ttl: ttlSeconds }),
+    });
+    if (error) throw error;
+    return data as boolean;
+  },
+
+  compareAndSet: async (
+    key: string,
+    expected: any,
+    v: any,
+    { ttlSeconds }: KvSetOptions = {},
+  ): Promise<boolean> => {
+    // kv_compare_and_set writes only while the stored JSONB equals `expected`
+    // (null for a missing key) and returns whether it did
+    const { data, error } = await supabase.rpc("kv_compare_and_set", {
+      pid,
+      k: key,
+      expected,
+      v,
+      ...(ttlSeconds !== undefined && { ttl: ttlSeconds }),
+    });
     if (error) throw error;
+    return data as boolean;
   },
 
   incr: async (key: string, delta = 1): Promise<number> => {
@@ -0,0 +1,194 @@
+import type { Campaign } from "~/lib/campaigns";
+import { getAllDonations } from "~/lib/donation-indexer";
+import { groupDonationsByDonor, resolveDonorIdentities } from "~/lib/donors";
+import { kv } from "~/lib/kv";
+import {
+  getPeriodStart,
+  groupReferralsByReferrer,
+  rankEntries,
+  type LeaderboardEntry,
+  type LeaderboardKind,
+  type LeaderboardPeriod,
+} from "~/lib/leaderboard";
+import { fetchFarcasterUsersByFids, type FarcasterUser } from "~/lib/neynar";
+import {
+  getCampaignDonationPrivacy,
+  getCampaignReferrals,
+} from "~/lib/payment-store";
+
+// FIDs hidden from every leaderboard, mapped to true; null when they opt back in
+const optOutsKey = "leaderboard:optouts";
+
+// Profiles change rarely, so Neynar lookups are cached for an hour
+const PROFILE_REVALIDATE_SECONDS = 3600;
+// Neynar returns at most this many users per bulk-by-fid request
+const BULK_FID_LIMIT = 100;
+
+export async function getLeaderboardOptOuts(): Promise<Set<number>> {
+  const optOuts: Record<string, true | null> | null = await kv.get(optOutsKey);
+  return new Set(
+    Object.entries(optOuts || {})
+      .filter(([, optedOut]) => optedOut)
+      .map(([fid]) => Number(fid)),
+  );
+}
+
+export async function setLeaderboardOptOut(
+  fid: number,
+  optedOut: boolean,
+): Promise<void> {
+  await kv.merge(optOutsKey, { [fid]: optedOut || null });
+}
+
+/**
+ * Addresses verified by users who opted out, so their donations are left out
+ * even when they are listed by address or not resolved to a profile
+ * @returns null when they could not be looked up
+ */
+async function getOptedOutAddresses(
+  optOuts: Set<number>,
+  apiKey: string | undefined,
+): Promise<Set<string> | null> {
+  if (optOuts.size === 0) return new Set();
+  if (!apiKey) return null;
+
+  try {
+    const fids = Array.from(optOuts);
+    const users: FarcasterUser[] = [];
+    for (let i = 0; i < fids.length; i += BULK_FID_LIMIT) {
+      users.push(
+        ...(await fetchFarcasterUsersByFids(
+          fids.slice(i, i + BULK_FID_LIMIT),
+          apiKey,
+          { next: { revalidate: PROFILE_REVALIDATE_SECONDS } },
+        )),
+      );
+    }
+    return new Set(
+      users
+        .flatMap((user) => user.verified_addresses?.eth_addresses ?? [])
+        .map((address) => address.toLowerCase()),
+    );
+  } catch (error) {
+    console.error("Failed to resolve opted-out addresses", error);
+    return null;
+  }
+}
+
+/**
+ * Donors ranked by USD donated in the period. Addresses verified by the same
+ * Farcaster user count as one donor.
+ */
+async function rankDonors(
+  campaign: Campaign,
+  since: number,
+  optOuts: Set<number>,
+  apiKey: string | undefined,
+): Promise<LeaderboardEntry[]> {
+  const [records, privacy] = await Promise.all([
+    getAllDonations(campaign),
+    getCampaignDonationPrivacy(campaign.slug),
+  ]);
+  const [donors, optedOutAddresses] = await Promise.all([
+    resolveDonorIdentities(
+      groupDonationsByDonor(
+        records.filter((record) => record.timestamp * 1000 >= since),
+        campaign,
+        privacy,
+      ),
+      apiKey,
+    ),
+    getOptedOutAddresses(optOuts, apiKey),
+  ]);
+
+  const byIdentity = new Map<string, Omit<LeaderboardEntry, "rank">>();
+  donors.forEach(({ user, totalAmount, donationCount }, i) => {
+    const farcaster = user?.farcaster;
+    if (farcaster && optOuts.has(farcaster.fid)) return;
+    if (!farcaster && user) {
+      // Without the opted-out addresses, nobody shown by address can be
+      // told apart from them, so leave all of those out
+      if (!optedOutAddresses) return;
+      const addresses = [user.primaryAddress, ...user.addresses];
+      if (addresses.some((a) => optedOutAddresses.has(a.toLowerCase()))) return;
+    }
+
+    // Anonymous donors stay separate entries without an address
+    const key = farcaster
+      ? `fid:${farcaster.fid}`
+      : (user?.primaryAddress ?? `anonymous:${i}`);
+    const entry = byIdentity.get(key) || {
+      ...(farcaster
+        ? { fid: farcaster.fid, farcaster }
+        : user && { address: user.primaryAddress }),
+      totalAmount: 0,
+      count: 0,
+    };
+    entry.totalAmount = Math.round((entry.totalAmount + totalAmount) * 100) / 100;
+    entry.count += donationCount;
+    byIdentity.set(key, entry);
+  });
+  return rankEntries(Array.from(byIdentity.values()));
+}
+
+/**
+ * Referrers ranked by USD donated through their shared links in the period
+ */
+async function rankReferrers(
+  campaign: Campaign,
+  since: number,
+  optOuts: Set<number>,
+  limit: number,
+  apiKey: string | undefined,
+): Promise<LeaderboardEntry[]> {
+  const referrers = groupReferralsByReferrer(
+    Object.values(await getCampaignReferrals(campaign.slug)),
+    since,
+  ).filter((entry) => !optOuts.has(entry.fid!));
+  const ranked = rankEntries(referrers).slice(0, limit);
+  if (!apiKey || ranked.length === 0) return ranked;
+
+  try {
+    const users = await fetchFarcasterUsersByFids(
+      ranked.map((entry) => entry.fid!),
+      apiKey,
+      { next: { revalidate: PROFILE_REVALIDATE_SECONDS } },
+    );
+    return ranked.map((entry) => ({
+      ...entry,
+      farcaster: users.find((user) => user.fid === entry.fid),
+    }));
+  } catch (error) {
+    console.error("Failed to resolve referrer profiles", error);
+    return ranked;
+  }
+}
+
+/**
+ * The top `limit` places of a campaign's leaderboard, aggregated here so
+ * clients don't need the donation history. Users who opted out are left out
+ * before ranking, so they leave no gaps.
+ */
+export async function getLeaderboard(
+  campaign: Campaign,
+  {
+    kind,
+    period,
+    limit,
+    now = Date.now(),
+    apiKey = process.env.NEYNAR_API_KEY,
+  }: {
+    kind: LeaderboardKind;
+    period: LeaderboardPeriod;
+    limit: number;
+    now?: number;
+    apiKey?: string;
+  },
+): Promise<LeaderboardEntry[]> {
+  const since = getPeriodStart(period, now);
+  const optOuts = await getLeaderboardOptOuts();
+  if (kind === "referrers") {
+    return rankReferrers(campaign, since, optOuts, limit, apiKey);
+  }
+  return (await rankDonors(campaign, since, optOuts, apiKey)).slice(0, limit);
+}
@@ -0,0 +1,99 @@
+import type { FarcasterUser } from "~/lib/neynar";
+import type { DonationReferral } from "~/lib/payments";
+
+export type LeaderboardPeriod = "all" | "month" | "week";
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["all", "month", "week"];
+
+/** Top donors, or the people whose shared links brought in donations */
+export type LeaderboardKind = "donors" | "referrers";
+
+export type LeaderboardEntry = {
+  rank: number;
+  /**
+   * Set for Farcaster users. Donors listed by address only have an address,
+   * anonymous donors have neither.
+   */
+  fid?: number;
+  farcaster?: FarcasterUser;
+  address?: string;
+  /** USD donated, or for referrers the USD donated through their links */
+  totalAmount: number;
+  /** Donations made, or brought in */
+  count: number;
+};
+
+/**
+ * Start of the period in milliseconds, in UTC. Weeks start on Monday.
+ * @returns 0 for all time
+ */
+export function getPeriodStart(
+  period: LeaderboardPeriod,
+  now = Date.now(),
+): number {
+  const date = new Date(now);
+  if (period === "month") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  if (period === "week") {
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+    return Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() - daysSinceMonday,
+    );
+  }
+  return 0;
+}
+
+/**
+ * Sort by amount, then by number of donations, and number the places.
+ * Equal amounts and counts share a place.
+ */
+export function rankEntries(
+  entries: Omit<LeaderboardEntry, "rank">[],
+): LeaderboardEntry[] {
+  const sorted = [...entries].sort(
+    (a, b) => b.totalAmount - a.totalAmount || b.count - a.count,
+  );
+  const ranked: LeaderboardEntry[] = [];
+  sorted.forEach((entry, i) => {
+    const previous = ranked[i - 1];
+    const isTied =
+      previous &&
+      previous.totalAmount === entry.totalAmount &&
+      previous.count === entry.count;
+    ranked.push({ ...entry, rank: isTied ? previous.rank : i + 1 });
+  });
+  return ranked;
+}
+
+/**
+ * Sum referred payments per referrer since `since` (milliseconds).
+ * Referrals only come from payments confirmed by Daimo Pay, since browser
+ * reports can name any referrer and amount. Payments where donors referred
+ * themselves are ignored.
+ */
+export function groupReferralsByReferrer(
+  referrals: DonationReferral[],
+  since = 0,
+): Omit<LeaderboardEntry, "rank">[] {
+  const byReferrer = new Map<number, { usd: number; count: number }>();
+
+  for (const referral of referrals) {
+    const { referrerFid } = referral;
+    if (referrerFid === referral.fid) continue;
+    if (referral.completedAt < since) continue;
+
+    const entry = byReferrer.get(referrerFid) || { usd: 0, count: 0 };
+    entry.usd += Number(referral.amountUsd) || 0;
+    entry.count += 1;
+    byReferrer.set(referrerFid, entry);
+  }
+
+  return Array.from(byReferrer, ([fid, { usd, count }]) => ({
+    fid,
+    totalAmount: Math.round(usd * 100) / 100,
+    count,
+  }));
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import type { Campaign } from "~/lib/campaigns";
+import { kv } from "~/lib/kv";
+import type { Disbursement, LedgerEntry, LedgerVoid } from "~/lib/ledger";
+
+// Every entry of a campaign's ledger, oldest first. Only ever appended to.
+const ledgerKey = (campaign: Campaign) => `ledger:${campaign.slug}:entries`;
+
+export async function getLedgerEntries(campaign: Campaign): Promise<LedgerEntry[]> {
+  return (await kv.get(ledgerKey(campaign))) || [];
+}
+
+export async function recordDisbursement(
+  campaign: Campaign,
+  disbursement: Omit<Disbursement, "kind" | "id" | "campaign" | "recordedAt">,
+): Promise<Disbursement> {
+  const entry: Disbursement = {
+    ...disbursement,
+    kind: "disbursement",
+    id: randomUUID(),
+    campaign: campaign.slug,
+    recordedAt: Date.now(),
+  };
+  await kv.append(ledgerKey(campaign), entry);
+  return entry;
+}
+
+/**
+ * Void a disbursement by appending a void entry
+ * @returns null when there is no such disbursement or it is already voided
+ */
+export async function voidDisbursement(
+  campaign: Campaign,
+  {
+    voids,
+    reason,
+    recordedBy,
+  }: Pick<LedgerVoid, "voids" | "reason" | "recordedBy">,
+): Promise<LedgerVoid | null> {
+  const entries = await getLedgerEntries(campaign);
+  const exists = entries.some(
+    (entry) => entry.kind === "disbursement" && entry.id === voids,
+  );
+  const isVoided = entries.some(
+    (entry) => entry.kind === "void" && entry.voids === voids,
+  );
+  if (!exists || isVoided) return null;
+
+  const entry: LedgerVoid = {
+    kind: "void",
+    id: randomUUID(),
+    campaign: campaign.slug,
+    voids,
+    reason,
+    recordedBy,
+    recordedAt: Date.now(),
+  };
+  await kv.append(ledgerKey(campaign), entry);
+  return entry;
+}
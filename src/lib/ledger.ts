@@ -0,0 +1,64 @@
+import type { Hex } from "viem";
+
+/** Money paid out of the campaign, e.g. to the drilling contractor */
+export type Disbursement = {
+  kind: "disbursement";
+  id: string;
+  campaign: string;
+  amountUsd: number;
+  /** ISO 8601 date the payment was made */
+  paidAt: string;
+  payee: string;
+  purpose: string;
+  /** Receipt photo or invoice uploaded through /api/upload */
+  receiptUrl?: string;
+  /** Onchain payment, when there is one */
+  chainId?: number;
+  txHash?: Hex;
+  /** FID of the creator who recorded it */
+  recordedBy: number;
+  recordedAt: number;
+};
+
+/**
+ * Entries are never edited or removed. A mistaken disbursement is voided
+ * by a later entry, and both stay in the ledger.
+ */
+export type LedgerVoid = {
+  kind: "void";
+  id: string;
+  campaign: string;
+  /** Id of the voided disbursement */
+  voids: string;
+  reason: string;
+  recordedBy: number;
+  recordedAt: number;
+};
+
+export type LedgerEntry = Disbursement | LedgerVoid;
+
+export type LedgerDisbursement = Disbursement & { voidedBy?: LedgerVoid };
+
+/**
+ * Disbursements newest first, with their voids attached, and the total
+ * of those still standing
+ */
+export function summarizeLedger(entries: LedgerEntry[]): {
+  disbursements: LedgerDisbursement[];
+  spent: number;
+} {
+  const voids = new Map(
+    entries
+      .filter((entry): entry is LedgerVoid => entry.kind === "void")
+      .map((entry) => [entry.voids, entry]),
+  );
+  const disbursements = entries
+    .filter((entry): entry is Disbursement => entry.kind === "disbursement")
+    .map((entry) => ({ ...entry, voidedBy: voids.get(entry.id) }))
+    .sort((a, b) => b.paidAt.localeCompare(a.paidAt) || b.recordedAt - a.recordedAt);
+  const spent = disbursements
+    .filter((entry) => !entry.voidedBy)
+    .reduce((sum, entry) => sum + entry.amountUsd, 0);
+
+  return { disbursements, spent: Math.round(spent * 100) / 100 };
+}
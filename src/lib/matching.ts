@@ -0,0 +1,95 @@
+import type { MatchingPool } from "~/lib/campaigns";
+
+export type MatchingPoolStatus = {
+  pool: MatchingPool;
+  /** USD the sponsor owes for donations matched so far */
+  matched: number;
+  /** USD left before the cap is reached */
+  remaining: number;
+  isActive: boolean;
+};
+
+/** A pool that would match a donation made right now */
+export type ActiveMatch = {
+  sponsor: string;
+  ratio: number;
+  remaining: number;
+  endsAt: string;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether the pool is running at `now` (milliseconds since epoch)
+ */
+export function isPoolRunning(pool: MatchingPool, now = Date.now()): boolean {
+  return (
+    new Date(pool.startsAt).getTime() <= now &&
+    now < new Date(pool.endsAt).getTime()
+  );
+}
+
+/**
+ * Match donations against the campaign pools in the order they were made
+ * @param donations - USD value and timestamp in seconds of each donation
+ */
+export function applyMatchingPools(
+  donations: { usd: number; timestamp: number }[],
+  pools: MatchingPool[],
+  now = Date.now(),
+): { matched: number; pools: MatchingPoolStatus[] } {
+  const chronological = [...donations].sort((a, b) => a.timestamp - b.timestamp);
+
+  const statuses = pools.map((pool) => {
+    const startsAt = new Date(pool.startsAt).getTime();
+    const endsAt = new Date(pool.endsAt).getTime();
+    let matched = 0;
+
+    for (const donation of chronological) {
+      const donatedAt = donation.timestamp * 1000;
+      if (donatedAt < startsAt || donatedAt >= endsAt) continue;
+      matched = Math.min(pool.capUsd, matched + donation.usd * pool.ratio);
+      if (matched >= pool.capUsd) break;
+    }
+
+    const remaining = roundCents(pool.capUsd - matched);
+    return {
+      pool,
+      matched: roundCents(matched),
+      remaining,
+      isActive: isPoolRunning(pool, now) && remaining > 0,
+    };
+  });
+
+  return {
+    matched: roundCents(statuses.reduce((sum, status) => sum + status.matched, 0)),
+    pools: statuses,
+  };
+}
+
+/**
+ * Pools still matching new donations. Running pools stack, so a donation
+ * is matched by each of them.
+ */
+export function getActiveMatches(statuses: MatchingPoolStatus[]): ActiveMatch[] {
+  return statuses
+    .filter((status) => status.isActive)
+    .map((status) => ({
+      sponsor: status.pool.sponsor,
+      ratio: status.pool.ratio,
+      remaining: status.remaining,
+      endsAt: status.pool.endsAt,
+    }));
+}
+
+/**
+ * USD sponsors add to a donation of `amountUsd`, limited by what is left in each pool
+ */
+export function getMatchedAmount(amountUsd: number, matches: ActiveMatch[]): number {
+  return roundCents(
+    matches.reduce(
+      (sum, match) => sum + Math.min(amountUsd * match.ratio, match.remaining),
+      0,
+    ),
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * English messages. Placeholders are written as {name}; messages with
+ * `one` and `other` forms are picked by the `count` value.
+ */
+export const en = {
+  common: {
+    anonymous: "Anonymous",
+    close: "Close",
+    done: "Done",
+    saving: "Saving...",
+    viewTransaction: "View transaction",
+  },
+  donation: {
+    ended: "This campaign has ended",
+    endsIn: "Ends {time}",
+    title: "Support with {symbol}",
+    subtitle: "Choose an amount to donate",
+    pledgeDue:
+      "Your pledged donation is due. The amount below is filled in for you.",
+    asset: "Donate with",
+    assetLabel: "{symbol} on {chain}",
+    assetCountsOnConfirmation:
+      "{symbol} donations count toward the goal at their dollar value once Daimo Pay confirms the payment.",
+    customAmount: "Or enter another amount",
+    recipient: "Recipient:",
+    matchTotal: "Your {amount} becomes {total}",
+    matchedBy: "Matched by {sponsors}",
+    sponsorSeparator: " and ",
+    donate: "Donate {amount}",
+    closed: "This campaign is no longer accepting donations",
+    selectAmount: "Select an amount to continue",
+    learnMore: "Learn more about this project",
+    visitWebsite: "Visit Project Website",
+  },
+  amount: {
+    required: "Enter an amount",
+    notANumber: "Enter a number, like 7 or 12.50",
+    tooPrecise: "Use at most {decimals} decimal places",
+    belowMin: "Minimum donation is {amount}",
+    aboveMax: "Maximum donation is {amount}",
+    large: "{amount} is a large donation. Please double-check the amount.",
+  },
+  currency: {
+    approx: "≈ {amount}",
+    showIn: "Show amounts in",
+    impactTitle: "What {amount} does",
+    ratesFrom: "Approximate, at rates from {source}",
+    ratesStatic: "Approximate, at the campaign's reference rates",
+  },
+  progress: {
+    raisedOf: "raised of {goal}",
+    donated: "{amount} donated",
+    matched: "{amount} matched by sponsors",
+    funded: "{percent}% funded",
+    donors: { one: "{count} donor", other: "{count} donors" },
+    unavailable: "Progress is unavailable right now",
+  },
+  success: {
+    title: "Thank You!",
+    received: "Your donation of {amount} to {campaign} was received.",
+    spreadTheWord: "Spread the word so more people can help",
+    viewReceipt: "View receipt",
+    donateAgain: "Make another donation",
+  },
+  pledge: {
+    weekly: "Weekly",
+    monthly: "Monthly",
+    active: {
+      weekly: "Weekly pledge of {amount}",
+      monthly: "Monthly pledge of {amount}",
+    },
+    nextReminder: "We will remind you on {date}.",
+    cancel: "Cancel pledge",
+    offer: "A well needs care all year. Make this gift recurring?",
+    submit: {
+      weekly: "Pledge {amount} weekly",
+      monthly: "Pledge {amount} monthly",
+    },
+    saveFailed: "Failed to save pledge",
+    reminder: {
+      title: "Your pledge is due",
+      body: {
+        weekly:
+          "Your weekly pledge of {amount} to {campaign} is due. Tap to donate.",
+        monthly:
+          "Your monthly pledge of {amount} to {campaign} is due. Tap to donate.",
+      },
+    },
+  },
+  receipt: {
+    title: "Donation receipt",
+    pending:
+      "The receipt is ready once Daimo Pay confirms the payment, usually within a minute. Reload this page to check again.",
+    print: "Print",
+    downloadPdf: "Download PDF",
+    verifyOnchain: "Verify onchain:",
+    donation: "Donation",
+    anonymous: "Anonymous",
+    fid: "FID {fid}",
+    txPending: "Pending",
+    confirmed: "Confirmed by Daimo Pay",
+    rows: {
+      number: "Receipt number",
+      date: "Date",
+      campaign: "Campaign",
+      donor: "Donor",
+      donorAddress: "Donor address",
+      amount: "Amount",
+      token: "Token",
+      chain: "Chain",
+      recipient: "Recipient",
+      transaction: "Transaction",
+      status: "Status",
+    },
+  },
+  privacy: {
+    listWith: "List my donation with",
+    farcaster: "My Farcaster name",
+    farcasterHint: "Your profile is shown with your donation",
+    address: "My wallet address only",
+    addressHint: "Your Farcaster profile is never linked to it here",
+    anonymous: "Anonymous",
+    anonymousHint:
+      "Shown as an anonymous donor. The transfer itself stays public onchain.",
+    note: "Add a note (optional)",
+    notePlaceholder: "Why you're giving, or a message for the team",
+    notePublic: "Shown on the donor wall",
+    notePrivate: "Only the campaign creators can read it",
+  },
+  donorWall: {
+    title: "Recent donors",
+    loadFailed: "Donors could not be loaded right now",
+    empty: "Be the first to support this project!",
+    walletDonor: "Wallet donor",
+    anonymousDonor: "Anonymous donor",
+  },
+  leaderboard: {
+    title: "Leaderboard",
+    donors: "Top donors",
+    referrers: "Top referrers",
+    period: {
+      all: "All time",
+      month: "This month",
+      week: "This week",
+    },
+    loadFailed: "The leaderboard could not be loaded right now",
+    noDonations: "No donations in this period yet",
+    noReferrals: "No donations came in through shared links in this period yet",
+    donations: { one: "{count} donation", other: "{count} donations" },
+    referrals: {
+      one: "Brought in {count} donation",
+      other: "Brought in {count} donations",
+    },
+    showMe: "Show me on leaderboards",
+  },
+  updates: {
+    title: "Project updates",
+    loadFailed: "Updates could not be loaded right now",
+    photo: "{title} ({index} of {total})",
+  },
+  share: {
+    button: "Share",
+    someone: "A donor",
+    donated: "{donor} donated",
+    donatedAmount: "{donor} donated {amount}",
+    donatedTo: "{donor} donated {amount} to {campaign}",
+    to: "to {campaign}",
+  },
+  miniApp: {
+    add: "Add Mini App",
+    saved: "Saved",
+    open: "Open",
+    label: "Farcaster Mini App",
+  },
+  nav: {
+    lightMode: "Light Mode",
+    darkMode: "Dark Mode",
+    home: "Home",
+    madeBy: "Made by {creator}",
+    builtWith: "Built with Vibes",
+    customize: "Copy and Customize",
+    notifications: "Notifications",
+  },
+  notifications: {
+    title: "Notifications",
+    description: "Choose what this app may notify you about.",
+    category: {
+      updates: {
+        label: "Project updates",
+        description: "News and photos from the projects you support",
+      },
+      pledges: {
+        label: "Pledge reminders",
+        description: "A reminder when a weekly or monthly pledge is due",
+      },
+      milestones: {
+        label: "Milestones",
+        description: "Goals reached, weekly progress and last calls",
+      },
+      campaigns: {
+        label: "New campaigns",
+        description: "When a new fundraiser starts",
+      },
+    },
+    openInFarcaster: "Open this app in Farcaster to manage its notifications.",
+    notEnabled:
+      "Notifications are off for this app. Add it and turn them on in your Farcaster client to receive any of these.",
+    unsubscribePrompt: "Stop receiving “{category}” notifications?",
+    unsubscribe: "Unsubscribe",
+    unsubscribed: "You will no longer receive “{category}” notifications.",
+    fromNotification: "Opened from a “{category}” notification.",
+    manage: "Manage notifications",
+    failed: "Could not save your choice",
+  },
+  transparency: {
+    title: "Where the money goes",
+    raised: "Received",
+    spent: "Spent",
+    remaining: "Remaining",
+    pledged:
+      "Sponsors have also pledged {amount} in matching, counted here once it arrives",
+    overTime: "Received and spent over time",
+    disbursements: "Disbursements",
+    empty: "No money has been paid out yet",
+    paidTo: "{date} to {payee}",
+    receipt: "Receipt",
+    transaction: "Transaction",
+    voided: "Voided",
+    voidedOn: "Voided {date}: {reason}",
+    chartEmpty: "Nothing has been raised or spent yet",
+  },
+  mint: {
+    button: "Mint NFT",
+    step: {
+      detecting: "Detecting NFT Type",
+      sheet: "Mint NFT",
+      connecting: "Connecting Wallet",
+      approve: "Approve Token",
+      approving: "Approving...",
+      minting: "Preparing Mint",
+      waitingMint: "Minting...",
+      success: "Mint Successful!",
+      cancelled: "Transaction Cancelled",
+      failed: "Transaction Failed",
+      validation: "Missing Information",
+    },
+    detectingType: "Detecting NFT contract type...",
+    missingInfo: "Missing Required Information",
+    approvalRequired: "Approval Required",
+    approvalExplainer:
+      "This NFT requires payment in {symbol}. You need to approve the contract to spend your tokens.",
+    token: "Token",
+    amountToApprove: "Amount to Approve",
+    approveToken: "Approve {symbol}",
+    wrongNetwork: "Wrong network",
+    switchTo: "Switch to {network}",
+    provider: "Provider",
+    contract: "Contract",
+    quantity: "Quantity",
+    pricePerNft: "Price per NFT",
+    mintFee: "Mint Fee",
+    totalCost: "Total Cost",
+    free: "Free",
+    unknown: "Unknown",
+    switchNetwork: "Switch Network",
+    switchNetworkToMint: "Switch Network to Mint",
+    mintCount: { one: "Mint {count} NFT", other: "Mint {count} NFTs" },
+    connect: "Connect",
+    connectToMint: "Connect Wallet to Mint",
+    connectingWallet: "Connecting to your Farcaster wallet...",
+    preparingApproval: "Preparing approval",
+    preparingMint: "Preparing mint transaction",
+    approveInWallet: "Please approve the transaction in your wallet",
+    approvalSubmitted: "Approval submitted",
+    txSubmitted: "Transaction submitted",
+    waitingConfirmation: "Waiting for confirmation on the blockchain...",
+    minted: "Minted! 🎉",
+    mintedCount: {
+      one: "{count} NFT successfully minted",
+      other: "{count} NFTs successfully minted",
+    },
+    switchToContinue: "Please switch to {network} to continue",
+    insufficientBalance: "Insufficient Balance",
+    needEnough: "Make sure you have enough:",
+    tokenForPrice: "{symbol} for the NFT price",
+    ethForGas: "ETH for gas fees",
+    ethForBoth: "ETH for both NFT price and gas fees",
+    tryAgain: "Try Again",
+  },
+  errors: {
+    rejected: "Transaction cancelled",
+    rejectedDetails: "You rejected the transaction in your wallet",
+    insufficientFunds: "Insufficient funds",
+    insufficientApproval: "You don't have enough tokens to approve this amount",
+    insufficientMint:
+      "You don't have enough funds to complete this transaction. Check both token balance and ETH for gas.",
+    checkBalance: "Check wallet balance",
+    wrongNetwork: "Wrong network",
+    wrongNetworkDetails: "Please switch to the correct network in your wallet",
+    switchNetwork: "Switch network",
+    failed: "Transaction failed",
+    contractRejected: "The contract rejected this transaction.",
+    soldOut: "This NFT is sold out or has reached maximum supply.",
+    notActive: "Minting hasn't started yet or has ended.",
+    maxPerWallet: "You've reached the maximum amount allowed per wallet.",
+    notEligible:
+      "You're not eligible to mint this NFT. Check if it requires an allowlist.",
+    tryLater: "Try again later",
+    approvalRequired: "Approval required",
+    approvalDetails: "You need to approve the contract spend your tokens first",
+    approveTokens: "Approve tokens",
+    network: "Network error",
+    networkDetails:
+      "Connection issue with the blockchain. This is usually temporary.",
+    unexpected: "An unexpected error occurred",
+    tryAgain: "Try again",
+  },
+};
@@ -0,0 +1,320 @@
+import type { Messages } from "~/lib/i18n";
+
+/**
+ * Spanish messages, with the same keys and placeholders as en.ts
+ */
+export const es: Messages = {
+  common: {
+    anonymous: "Anónimo",
+    close: "Cerrar",
+    done: "Listo",
+    saving: "Guardando...",
+    viewTransaction: "Ver transacción",
+  },
+  donation: {
+    ended: "Esta campaña ha terminado",
+    endsIn: "Termina {time}",
+    title: "Apoya con {symbol}",
+    subtitle: "Elige un monto para donar",
+    pledgeDue:
+      "Llegó la fecha de tu donación comprometida. El monto ya está completado abajo.",
+    asset: "Donar con",
+    assetLabel: "{symbol} en {chain}",
+    assetCountsOnConfirmation:
+      "Las donaciones en {symbol} cuentan para la meta por su valor en dólares cuando Daimo Pay confirma el pago.",
+    customAmount: "O ingresa otro monto",
+    recipient: "Destinatario:",
+    matchTotal: "Tus {amount} se convierten en {total}",
+    matchedBy: "Duplicado por {sponsors}",
+    sponsorSeparator: " y ",
+    donate: "Donar {amount}",
+    closed: "Esta campaña ya no recibe donaciones",
+    selectAmount: "Elige un monto para continuar",
+    learnMore: "Conoce más sobre este proyecto",
+    visitWebsite: "Visitar el sitio del proyecto",
+  },
+  amount: {
+    required: "Ingresa un monto",
+    notANumber: "Ingresa un número, como 7 o 12,50",
+    tooPrecise: "Usa como máximo {decimals} decimales",
+    belowMin: "La donación mínima es {amount}",
+    aboveMax: "La donación máxima es {amount}",
+    large: "{amount} es una donación grande. Revisa el monto, por favor.",
+  },
+  currency: {
+    approx: "≈ {amount}",
+    showIn: "Mostrar montos en",
+    impactTitle: "Lo que logran {amount}",
+    ratesFrom: "Aproximado, con tasas de {source}",
+    ratesStatic: "Aproximado, con las tasas de referencia de la campaña",
+  },
+  progress: {
+    raisedOf: "recaudados de {goal}",
+    donated: "{amount} donados",
+    matched: "{amount} aportados por patrocinadores",
+    funded: "{percent}% financiado",
+    donors: { one: "{count} donante", other: "{count} donantes" },
+    unavailable: "El progreso no está disponible en este momento",
+  },
+  success: {
+    title: "¡Gracias!",
+    received: "Recibimos tu donación de {amount} para {campaign}.",
+    spreadTheWord: "Compártelo para que más personas puedan ayudar",
+    viewReceipt: "Ver recibo",
+    donateAgain: "Hacer otra donación",
+  },
+  pledge: {
+    weekly: "Semanal",
+    monthly: "Mensual",
+    active: {
+      weekly: "Compromiso semanal de {amount}",
+      monthly: "Compromiso mensual de {amount}",
+    },
+    nextReminder: "Te lo recordaremos el {date}.",
+    cancel: "Cancelar compromiso",
+    offer: "Un pozo necesita cuidado todo el año. ¿Quieres que este aporte sea recurrente?",
+    submit: {
+      weekly: "Comprometer {amount} cada semana",
+      monthly: "Comprometer {amount} cada mes",
+    },
+    saveFailed: "No se pudo guardar el compromiso",
+    reminder: {
+      title: "Tu compromiso está pendiente",
+      body: {
+        weekly:
+          "Vence tu compromiso semanal de {amount} para {campaign}. Toca para donar.",
+        monthly:
+          "Vence tu compromiso mensual de {amount} para {campaign}. Toca para donar.",
+      },
+    },
+  },
+  receipt: {
+    title: "Recibo de donación",
+    pending:
+      "El recibo estará listo cuando Daimo Pay confirme el pago, normalmente en menos de un minuto. Recarga esta página para volver a comprobarlo.",
+    print: "Imprimir",
+    downloadPdf: "Descargar PDF",
+    verifyOnchain: "Verificar en la cadena:",
+    donation: "Donación",
+    anonymous: "Anónimo",
+    fid: "FID {fid}",
+    txPending: "Pendiente",
+    confirmed: "Confirmado por Daimo Pay",
+    rows: {
+      number: "Número de recibo",
+      date: "Fecha",
+      campaign: "Campaña",
+      donor: "Donante",
+      donorAddress: "Dirección del donante",
+      amount: "Monto",
+      token: "Token",
+      chain: "Red",
+      recipient: "Destinatario",
+      transaction: "Transacción",
+      status: "Estado",
+    },
+  },
+  privacy: {
+    listWith: "Mostrar mi donación con",
+    farcaster: "Mi nombre de Farcaster",
+    farcasterHint: "Tu perfil se muestra junto a tu donación",
+    address: "Solo mi dirección de billetera",
+    addressHint: "Aquí nunca se vincula con tu perfil de Farcaster",
+    anonymous: "Anónimo",
+    anonymousHint:
+      "Se muestra como donante anónimo. La transferencia sigue siendo pública en la cadena.",
+    note: "Agrega una nota (opcional)",
+    notePlaceholder: "Por qué donas, o un mensaje para el equipo",
+    notePublic: "Se muestra en el muro de donantes",
+    notePrivate: "Solo los creadores de la campaña pueden leerla",
+  },
+  donorWall: {
+    title: "Donantes recientes",
+    loadFailed: "No se pudieron cargar los donantes en este momento",
+    empty: "¡Sé la primera persona en apoyar este proyecto!",
+    walletDonor: "Donante con billetera",
+    anonymousDonor: "Donante anónimo",
+  },
+  leaderboard: {
+    title: "Clasificación",
+    donors: "Más donantes",
+    referrers: "Más referidos",
+    period: {
+      all: "Histórico",
+      month: "Este mes",
+      week: "Esta semana",
+    },
+    loadFailed: "No se pudo cargar la clasificación en este momento",
+    noDonations: "Todavía no hay donaciones en este periodo",
+    noReferrals:
+      "Todavía no llegaron donaciones por enlaces compartidos en este periodo",
+    donations: { one: "{count} donación", other: "{count} donaciones" },
+    referrals: {
+      one: "Atrajo {count} donación",
+      other: "Atrajo {count} donaciones",
+    },
+    showMe: "Mostrarme en las clasificaciones",
+  },
+  updates: {
+    title: "Novedades del proyecto",
+    loadFailed: "No se pudieron cargar las novedades en este momento",
+    photo: "{title} ({index} de {total})",
+  },
+  share: {
+    button: "Compartir",
+    someone: "Alguien",
+    donated: "{donor} donó",
+    donatedAmount: "{donor} donó {amount}",
+    donatedTo: "{donor} donó {amount} a {campaign}",
+    to: "a {campaign}",
+  },
+  miniApp: {
+    add: "Agregar Mini App",
+    saved: "Guardada",
+    open: "Abrir",
+    label: "Mini App de Farcaster",
+  },
+  nav: {
+    lightMode: "Modo claro",
+    darkMode: "Modo oscuro",
+    home: "Inicio",
+    madeBy: "Hecho por {creator}",
+    builtWith: "Hecho con Vibes",
+    customize: "Copiar y personalizar",
+    notifications: "Notificaciones",
+  },
+  notifications: {
+    title: "Notificaciones",
+    description: "Elige sobre qué puede avisarte esta app.",
+    category: {
+      updates: {
+        label: "Novedades del proyecto",
+        description: "Noticias y fotos de los proyectos que apoyas",
+      },
+      pledges: {
+        label: "Recordatorios de compromisos",
+        description: "Un aviso cuando vence un compromiso semanal o mensual",
+      },
+      milestones: {
+        label: "Hitos",
+        description: "Metas alcanzadas, avance semanal y últimos llamados",
+      },
+      campaigns: {
+        label: "Campañas nuevas",
+        description: "Cuando empieza una nueva recaudación",
+      },
+    },
+    openInFarcaster: "Abre esta app en Farcaster para gestionar sus notificaciones.",
+    notEnabled:
+      "Las notificaciones de esta app están desactivadas. Agrégala y actívalas en tu cliente de Farcaster para recibir cualquiera de estas.",
+    unsubscribePrompt: "¿Dejar de recibir notificaciones de “{category}”?",
+    unsubscribe: "Cancelar suscripción",
+    unsubscribed: "Ya no recibirás notificaciones de “{category}”.",
+    fromNotification: "Abierto desde una notificación de “{category}”.",
+    manage: "Gestionar notificaciones",
+    failed: "No se pudo guardar tu elección",
+  },
+  transparency: {
+    title: "En qué se usa el dinero",
+    raised: "Recibido",
+    spent: "Gastado",
+    remaining: "Disponible",
+    pledged:
+      "Los patrocinadores además prometieron {amount} en aportes igualados, que se cuentan aquí cuando llegan",
+    overTime: "Recibido y gastado en el tiempo",
+    disbursements: "Desembolsos",
+    empty: "Todavía no se ha pagado nada",
+    paidTo: "{date} a {payee}",
+    receipt: "Comprobante",
+    transaction: "Transacción",
+    voided: "Anulado",
+    voidedOn: "Anulado el {date}: {reason}",
+    chartEmpty: "Todavía no se ha recaudado ni gastado nada",
+  },
+  mint: {
+    button: "Acuñar NFT",
+    step: {
+      detecting: "Detectando el tipo de NFT",
+      sheet: "Acuñar NFT",
+      connecting: "Conectando billetera",
+      approve: "Aprobar token",
+      approving: "Aprobando...",
+      minting: "Preparando la acuñación",
+      waitingMint: "Acuñando...",
+      success: "¡NFT acuñado!",
+      cancelled: "Transacción cancelada",
+      failed: "La transacción falló",
+      validation: "Falta información",
+    },
+    detectingType: "Detectando el tipo de contrato del NFT...",
+    missingInfo: "Falta información necesaria",
+    approvalRequired: "Se necesita aprobación",
+    approvalExplainer:
+      "Este NFT se paga en {symbol}. Debes aprobar que el contrato use tus tokens.",
+    token: "Token",
+    amountToApprove: "Monto a aprobar",
+    approveToken: "Aprobar {symbol}",
+    wrongNetwork: "Red incorrecta",
+    switchTo: "Cambiar a {network}",
+    provider: "Proveedor",
+    contract: "Contrato",
+    quantity: "Cantidad",
+    pricePerNft: "Precio por NFT",
+    mintFee: "Comisión de acuñación",
+    totalCost: "Costo total",
+    free: "Gratis",
+    unknown: "Desconocido",
+    switchNetwork: "Cambiar de red",
+    switchNetworkToMint: "Cambia de red para acuñar",
+    mintCount: { one: "Acuñar {count} NFT", other: "Acuñar {count} NFT" },
+    connect: "Conectar",
+    connectToMint: "Conecta tu billetera para acuñar",
+    connectingWallet: "Conectando con tu billetera de Farcaster...",
+    preparingApproval: "Preparando la aprobación",
+    preparingMint: "Preparando la transacción de acuñación",
+    approveInWallet: "Aprueba la transacción en tu billetera",
+    approvalSubmitted: "Aprobación enviada",
+    txSubmitted: "Transacción enviada",
+    waitingConfirmation: "Esperando la confirmación en la cadena...",
+    minted: "¡Acuñado! 🎉",
+    mintedCount: {
+      one: "{count} NFT acuñado con éxito",
+      other: "{count} NFT acuñados con éxito",
+    },
+    switchToContinue: "Cambia a {network} para continuar",
+    insufficientBalance: "Saldo insuficiente",
+    needEnough: "Asegúrate de tener suficiente:",
+    tokenForPrice: "{symbol} para el precio del NFT",
+    ethForGas: "ETH para las comisiones de red",
+    ethForBoth: "ETH para el precio del NFT y las comisiones de red",
+    tryAgain: "Intentar de nuevo",
+  },
+  errors: {
+    rejected: "Transacción cancelada",
+    rejectedDetails: "Rechazaste la transacción en tu billetera",
+    insufficientFunds: "Fondos insuficientes",
+    insufficientApproval: "No tienes suficientes tokens para aprobar este monto",
+    insufficientMint:
+      "No tienes fondos suficientes para esta transacción. Revisa tu saldo del token y el ETH para las comisiones.",
+    checkBalance: "Revisar el saldo",
+    wrongNetwork: "Red incorrecta",
+    wrongNetworkDetails: "Cambia a la red correcta en tu billetera",
+    switchNetwork: "Cambiar de red",
+    failed: "La transacción falló",
+    contractRejected: "El contrato rechazó esta transacción.",
+    soldOut: "Este NFT está agotado o llegó a su suministro máximo.",
+    notActive: "La acuñación aún no empezó o ya terminó.",
+    maxPerWallet: "Llegaste al máximo permitido por billetera.",
+    notEligible:
+      "No puedes acuñar este NFT. Revisa si requiere estar en una lista de acceso.",
+    tryLater: "Intenta más tarde",
+    approvalRequired: "Se necesita aprobación",
+    approvalDetails: "Primero debes aprobar que el contrato use tus tokens",
+    approveTokens: "Aprobar tokens",
+    network: "Error de red",
+    networkDetails:
+      "Hay un problema de conexión con la cadena. Suele ser temporal.",
+    unexpected: "Ocurrió un error inesperado",
+    tryAgain: "Intentar de nuevo",
+  },
+};
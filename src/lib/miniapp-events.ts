@@ -0,0 +1,150 @@
+import { createPublicKey, verify } from "crypto";
+import {
+  encodedJsonFarcasterSignatureSchema,
+  jsonFarcasterSignatureHeaderSchema,
+  serverEventSchema,
+  type MiniAppServerEvent,
+} from "@farcaster/miniapp-core";
+import {
+  deleteNotificationDetails,
+  setNotificationDetails,
+} from "~/lib/notifications";
+
+/**
+ * Checks that an app key is currently registered to the fid,
+ * so a key the user has revoked can no longer sign events for them
+ */
+export type AppKeyVerifier = (fid: number, appKey: string) => Promise<boolean>;
+
+export type MiniAppEventResult =
+  | { ok: true; fid: number; event: MiniAppServerEvent }
+  | { ok: false; status: 400 | 401; error: string };
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+
+/**
+ * Ask Neynar whether the app key belongs to the fid
+ * @param apiKey - Neynar API key
+ */
+export function createNeynarAppKeyVerifier(apiKey: string): AppKeyVerifier {
+  return async (fid, appKey) => {
+    const url = `https://api.neynar.com/v2/farcaster/frame/verify_app_key?fid=${fid}&signer_public_key=${encodeURIComponent(appKey)}`;
+    const response = await fetch(url, {
+      method: "GET",
+      headers: { accept: "application/json", "x-api-key": apiKey },
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      throw new Error(`App key verification failed: ${response.status}`);
+    }
+    const data: { valid?: boolean } = await response.json();
+    return data.valid === true;
+  };
+}
+
+/**
+ * Trust the given app keys for any fid without asking Neynar, for sending
+ * locally signed events to a dev server
+ */
+export function createTrustedAppKeyVerifier(keys: string[]): AppKeyVerifier {
+  const trusted = new Set(keys.map((key) => key.toLowerCase()));
+  return async (_fid, appKey) => trusted.has(appKey.toLowerCase());
+}
+
+/**
+ * App keys from MINIAPP_WEBHOOK_APP_KEYS, comma separated hex
+ */
+export function getTrustedAppKeys(): string[] {
+  return (process.env.MINIAPP_WEBHOOK_APP_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+/** Check the Ed25519 signature over "header.payload" with the raw app key */
+function verifyAppKeySignature(
+  header: string,
+  payload: string,
+  signature: string,
+  appKey: string,
+): boolean {
+  const rawKey = Buffer.from(appKey.replace(/^0x/, ""), "hex");
+  if (rawKey.length !== 32) return false;
+  try {
+    const key = createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: rawKey.toString("base64url") },
+      format: "jwk",
+    });
+    return verify(
+      null,
+      Buffer.from(`${header}.${payload}`),
+      key,
+      Buffer.from(signature, "base64url"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse and verify an event a Farcaster client sent to the webhook.
+ * The body is a JSON Farcaster Signature, { header, payload, signature },
+ * signed by the app key the user's client holds for them.
+ */
+export async function verifyMiniAppEvent(
+  body: string,
+  verifyAppKey: AppKeyVerifier,
+): Promise<MiniAppEventResult> {
+  let envelope;
+  let appKey;
+  let event;
+  try {
+    envelope = encodedJsonFarcasterSignatureSchema.parse(JSON.parse(body));
+    appKey = jsonFarcasterSignatureHeaderSchema.parse(
+      decodeSegment(envelope.header),
+    );
+    event = serverEventSchema.safeParse(decodeSegment(envelope.payload));
+  } catch {
+    return { ok: false, status: 400, error: "Invalid event envelope" };
+  }
+  if (!event.success) {
+    return { ok: false, status: 400, error: "Unsupported event" };
+  }
+
+  const { header, payload, signature } = envelope;
+  if (!verifyAppKeySignature(header, payload, signature, appKey.key)) {
+    return { ok: false, status: 401, error: "Invalid signature" };
+  }
+  if (!(await verifyAppKey(appKey.fid, appKey.key))) {
+    return { ok: false, status: 401, error: "App key is not valid for fid" };
+  }
+
+  return { ok: true, fid: appKey.fid, event: event.data };
+}
+
+/**
+ * Keep the user's notification url and token while the app is added with
+ * notifications on, and forget them once either is turned off
+ */
+export async function applyMiniAppEvent(
+  fid: number,
+  event: MiniAppServerEvent,
+): Promise<void> {
+  switch (event.event) {
+    case "miniapp_added":
+    case "frame_added":
+      if (event.notificationDetails) {
+        await setNotificationDetails(fid, event.notificationDetails);
+      }
+      break;
+    case "notifications_enabled":
+      await setNotificationDetails(fid, event.notificationDetails);
+      break;
+    case "miniapp_removed":
+    case "frame_removed":
+    case "notifications_disabled":
+      await deleteNotificationDetails(fid);
+      break;
+  }
+}
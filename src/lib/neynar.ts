@@ -0,0 +1,133 @@
+import { addressesEqual } from "~/lib/address-utils";
+
+// Types based on Neynar API response
+export type FarcasterUser = {
+  fid: number;
+  username: string;
+  display_name: string;
+  pfp_url: string;
+  follower_count: number;
+  following_count: number;
+  power_badge?: boolean;
+  profile?: {
+    bio?: {
+      text?: string;
+    };
+  };
+  verified_addresses?: {
+    eth_addresses?: string[];
+  };
+};
+
+export type NeynarSearchResponse = {
+  result: {
+    users: FarcasterUser[];
+    next?: {
+      cursor: string;
+    };
+  };
+};
+
+export type NeynarBulkAddressResponse = {
+  "0x...": FarcasterUser[];
+};
+
+// Unified user type that combines all identities
+export type UnifiedUser = {
+  // Primary identifier is the onchain address
+  primaryAddress: string;
+  // ENS name if available
+  ensName?: string;
+  // Farcaster profile if available
+  farcaster?: FarcasterUser;
+  // Additional addresses associated with this user
+  addresses: string[];
+  // Source of the result
+  source: "farcaster" | "ens" | "address";
+};
+
+// Neynar accepts up to 350 addresses per bulk-by-address request
+const BULK_ADDRESS_LIMIT = 350;
+
+/**
+ * Look up Farcaster users by verified address
+ * @param addresses - Ethereum addresses to resolve
+ * @param apiKey - Neynar API key
+ * @param init - Extra fetch options, e.g. Next.js `next.revalidate` caching
+ * @returns Map from lowercased address to the Farcaster users verified for it
+ */
+export async function fetchFarcasterUsersByAddresses(
+  addresses: string[],
+  apiKey: string,
+  init?: RequestInit & { next?: { revalidate?: number } },
+): Promise<Map<string, FarcasterUser[]>> {
+  const result = new Map<string, FarcasterUser[]>();
+  const unique = Array.from(new Set(addresses.map((a) => a.toLowerCase())));
+
+  for (let i = 0; i < unique.length; i += BULK_ADDRESS_LIMIT) {
+    const batch = unique.slice(i, i + BULK_ADDRESS_LIMIT);
+    const url = `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${encodeURIComponent(batch.join(","))}`;
+
+    const response = await fetch(url, {
+      ...init,
+      method: "GET",
+      headers: {
+        accept: "application/json",
+        api_key: apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      // If 404, it means no users found for these addresses
+      if (response.status === 404) {
+        continue;
+      }
+      const errorData = await response.json();
+      throw new Error(errorData.message || `API Error: ${response.status}`);
+    }
+
+    const data: NeynarBulkAddressResponse = await response.json();
+
+    // The response is an object with addresses as keys
+    for (const [addr, userList] of Object.entries(data)) {
+      const match = batch.find((a) => addressesEqual(a, addr));
+      if (match && Array.isArray(userList)) {
+        result.set(match, [...(result.get(match) || []), ...userList]);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Look up Farcaster users by fid
+ * @param fids - Farcaster ids, at most 100
+ * @param apiKey - Neynar API key
+ * @param init - Extra fetch options, e.g. Next.js `next.revalidate` caching
+ */
+export async function fetchFarcasterUsersByFids(
+  fids: number[],
+  apiKey: string,
+  init?: RequestInit & { next?: { revalidate?: number } },
+): Promise<FarcasterUser[]> {
+  if (fids.length === 0) return [];
+  const url = `https://api.neynar.com/v2/farcaster/user/bulk?fids=${fids.join(",")}`;
+
+  const response = await fetch(url, {
+    ...init,
+    method: "GET",
+    headers: {
+      accept: "application/json",
+      api_key: apiKey,
+    },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.message || `API Error: ${response.status}`);
+  }
+
+  const data: { users: FarcasterUser[] } = await response.json();
+  return data.users;
+}
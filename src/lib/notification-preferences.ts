@@ -0,0 +1,49 @@
+/** Kinds of notification a user can turn off separately */
+export const NOTIFICATION_CATEGORIES = [
+  "updates",
+  "pledges",
+  "milestones",
+  "campaigns",
+] as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+/** Category mapped to whether the user receives it */
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+/** Users who never changed anything get every category */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  updates: true,
+  pledges: true,
+  milestones: true,
+  campaigns: true,
+};
+
+/** Query parameter naming the category on pages opened from a notification */
+export const NOTIFICATION_CATEGORY_PARAM = "notification";
+
+export function isNotificationCategory(
+  value: unknown,
+): value is NotificationCategory {
+  return NOTIFICATION_CATEGORIES.includes(value as NotificationCategory);
+}
+
+/**
+ * Page where the user can turn the category off
+ */
+export function getUnsubscribePath(category: NotificationCategory): string {
+  return `/notifications?unsubscribe=${category}`;
+}
+
+/**
+ * Tag a notification's target URL with its category, so the page it opens
+ * can offer to unsubscribe
+ */
+export function withNotificationCategory(
+  targetUrl: string,
+  category: NotificationCategory,
+): string {
+  const url = new URL(targetUrl);
+  url.searchParams.set(NOTIFICATION_CATEGORY_PARAM, category);
+  return url.toString();
+}
@@ -0,0 +1,292 @@
+import {
+  sendNotificationResponseSchema,
+  type MiniAppNotificationDetails,
+  type SendNotificationRequest,
+  type SendNotificationResponse,
+} from "@farcaster/miniapp-core";
+import { kv } from "~/lib/kv";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  withNotificationCategory,
+  type NotificationCategory,
+  type NotificationPreferences,
+} from "~/lib/notification-preferences";
+
+// Notification url and token a Farcaster client gave us for a user
+const notificationDetailsKey = (fid: number) => `notifications:${fid}`;
+// Users with notifications enabled, fid mapped to true (null once disabled)
+const notificationFidsKey = "notifications:fids";
+// Categories a user changed, mapped to whether they receive them
+const notificationPreferencesKey = (fid: number) =>
+  `notification-preferences:${fid}`;
+// Outcome of each send, by notification id
+const notificationSendKey = (notificationId: string) =>
+  `notification-sends:${notificationId}`;
+
+// Farcaster clients accept at most 100 tokens per request
+const NOTIFICATION_BATCH_SIZE = 100;
+
+export type SendNotificationResult =
+  | "sent"
+  | "no_token"
+  | "invalid_token"
+  | "rate_limited"
+  | "opted_out"
+  | "error";
+
+/** Everyone with notifications enabled, or specific users */
+export type NotificationTarget = "all" | number[];
+
+export type NotificationMessage = {
+  /** Stable id; clients drop repeats of the same id for a day */
+  notificationId: string;
+  /** Users who turned the category off are skipped */
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  /** Page opened when the notification is tapped, on our domain */
+  targetUrl: string;
+};
+
+export type NotificationSendReport = NotificationMessage & {
+  sentAt: number;
+  /** How many users ended with each result */
+  results: Partial<Record<SendNotificationResult, number>>;
+  /** Result for each targeted fid */
+  fids: Record<string, SendNotificationResult>;
+};
+
+export type SendNotificationOptions = {
+  /** Tries per rate-limited token, including the first */
+  maxAttempts?: number;
+  /** Wait before the first retry; doubled for each one after */
+  retryDelayMs?: number;
+};
+
+/**
+ * Notification details for a user, or null if they have not enabled notifications
+ */
+export async function getNotificationDetails(
+  fid: number,
+): Promise<MiniAppNotificationDetails | null> {
+  return kv.get(notificationDetailsKey(fid));
+}
+
+export async function setNotificationDetails(
+  fid: number,
+  details: MiniAppNotificationDetails,
+): Promise<void> {
+  await kv.set(notificationDetailsKey(fid), details);
+  await kv.merge(notificationFidsKey, { [fid]: true });
+}
+
+export async function deleteNotificationDetails(fid: number): Promise<void> {
+  await kv.del(notificationDetailsKey(fid));
+  await kv.merge(notificationFidsKey, { [fid]: null });
+}
+
+/**
+ * The categories a user receives, with defaults for those never changed
+ */
+export async function getNotificationPreferences(
+  fid: number,
+): Promise<NotificationPreferences> {
+  const stored: Partial<NotificationPreferences> | null = await kv.get(
+    notificationPreferencesKey(fid),
+  );
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...stored };
+}
+
+export async function setNotificationPreferences(
+  fid: number,
+  patch: Partial<NotificationPreferences>,
+): Promise<NotificationPreferences> {
+  const stored: Partial<NotificationPreferences> = await kv.merge(
+    notificationPreferencesKey(fid),
+    patch,
+  );
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...stored };
+}
+
+/**
+ * Every user who has notifications enabled
+ */
+export async function listNotificationFids(): Promise<number[]> {
+  const fids: Record<string, true | null> | null = await kv.get(
+    notificationFidsKey,
+  );
+  return Object.entries(fids || {})
+    .filter(([, enabled]) => enabled)
+    .map(([fid]) => Number(fid));
+}
+
+/**
+ * POST one batch of tokens to a client's notification url
+ * @returns the client's verdict per token, "rate_limited" if it refused the
+ * whole batch with a 429, or null if the request failed
+ */
+async function postNotificationBatch(
+  url: string,
+  request: SendNotificationRequest,
+): Promise<SendNotificationResponse["result"] | "rate_limited" | null> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    if (response.status === 429) return "rate_limited";
+
+    // Clients are not guaranteed to answer with JSON, e.g. on a proxy error
+    const text = await response.text();
+    let data: unknown = null;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // handled below as an unparseable reply
+    }
+    const parsed = sendNotificationResponseSchema.safeParse(data);
+    if (!response.ok || !parsed.success) {
+      console.error(
+        "Notification request failed",
+        url,
+        response.status,
+        text.slice(0, 200),
+      );
+      return null;
+    }
+    return parsed.data.result;
+  } catch (error) {
+    console.error("Failed to send notification batch", url, error);
+    return null;
+  }
+}
+
+/**
+ * Deliver a notification without recording it. Users who turned its category
+ * off are skipped. Tokens are grouped by the client notification url they
+ * were issued for and sent in batches of 100. Invalid tokens are forgotten;
+ * rate-limited ones are retried with backoff.
+ * @returns the result for each targeted fid
+ */
+async function deliverNotifications(
+  target: NotificationTarget,
+  { notificationId, category, title, body, targetUrl }: NotificationMessage,
+  { maxAttempts = 3, retryDelayMs = 1000 }: SendNotificationOptions = {},
+): Promise<Record<string, SendNotificationResult>> {
+  const fids =
+    target === "all" ? await listNotificationFids() : [...new Set(target)];
+  const outcomes: Record<string, SendNotificationResult> = {};
+
+  // Tokens still to send, by notification url, each mapped to its fid
+  let pending = new Map<string, Map<string, number>>();
+  const [details, preferences] = await Promise.all([
+    Promise.all(fids.map(getNotificationDetails)),
+    Promise.all(fids.map(getNotificationPreferences)),
+  ]);
+  fids.forEach((fid, i) => {
+    const entry = details[i];
+    if (!entry) {
+      outcomes[fid] = "no_token";
+      return;
+    }
+    if (!preferences[i][category]) {
+      outcomes[fid] = "opted_out";
+      return;
+    }
+    const tokens = pending.get(entry.url) ?? new Map<string, number>();
+    tokens.set(entry.token, fid);
+    pending.set(entry.url, tokens);
+  });
+
+  for (let attempt = 1; pending.size > 0; attempt++) {
+    const rateLimited = new Map<string, Map<string, number>>();
+
+    for (const [url, tokens] of pending) {
+      const all = [...tokens.keys()];
+      for (let i = 0; i < all.length; i += NOTIFICATION_BATCH_SIZE) {
+        const batch = all.slice(i, i + NOTIFICATION_BATCH_SIZE);
+        const result = await postNotificationBatch(url, {
+          notificationId,
+          // Farcaster limits: title 32 characters, body 128
+          title: title.slice(0, 32),
+          body: body.slice(0, 128),
+          targetUrl: withNotificationCategory(targetUrl, category),
+          tokens: batch,
+        });
+
+        for (const token of batch) {
+          const fid = tokens.get(token)!;
+          if (result === null) {
+            outcomes[fid] = "error";
+          } else if (
+            result === "rate_limited" ||
+            result.rateLimitedTokens.includes(token)
+          ) {
+            outcomes[fid] = "rate_limited";
+            const retry = rateLimited.get(url) ?? new Map<string, number>();
+            retry.set(token, fid);
+            rateLimited.set(url, retry);
+          } else if (result.invalidTokens.includes(token)) {
+            outcomes[fid] = "invalid_token";
+            await deleteNotificationDetails(fid);
+          } else if (result.successfulTokens.includes(token)) {
+            outcomes[fid] = "sent";
+          } else {
+            // The client left the token out of its reply
+            outcomes[fid] = "error";
+          }
+        }
+      }
+    }
+
+    if (rateLimited.size === 0 || attempt >= maxAttempts) break;
+    await new Promise((resolve) =>
+      setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)),
+    );
+    pending = rateLimited;
+  }
+
+  return outcomes;
+}
+
+/**
+ * Send a notification to everyone who enabled them or to a list of users,
+ * and record how it went under its notification id
+ */
+export async function sendNotifications(
+  target: NotificationTarget,
+  message: NotificationMessage,
+  options?: SendNotificationOptions,
+): Promise<NotificationSendReport> {
+  const fids = await deliverNotifications(target, message, options);
+  const results: Partial<Record<SendNotificationResult, number>> = {};
+  for (const result of Object.values(fids)) {
+    results[result] = (results[result] || 0) + 1;
+  }
+
+  const report = { ...message, sentAt: Date.now(), results, fids };
+  await kv.set(notificationSendKey(message.notificationId), report);
+  return report;
+}
+
+/**
+ * The recorded outcome of a send, or null if there was none with that id
+ */
+export async function getNotificationSendReport(
+  notificationId: string,
+): Promise<NotificationSendReport | null> {
+  return kv.get(notificationSendKey(notificationId));
+}
+
+/**
+ * Send a mini app notification to one user.
+ * Tokens the Farcaster client reports as invalid are forgotten.
+ */
+export async function sendMiniAppNotification({
+  fid,
+  ...message
+}: NotificationMessage & { fid: number }): Promise<SendNotificationResult> {
+  const outcomes = await deliverNotifications([fid], message);
+  return outcomes[fid];
+}
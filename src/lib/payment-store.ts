@@ -0,0 +1,297 @@
+import { getAddress, isAddress } from "viem";
+import { kv } from "~/lib/kv";
+import type {
+  DonationPayer,
+  DonationPrivacy,
+  DonationReferral,
+  PaymentRecord,
+  PaymentStatus,
+} from "~/lib/payments";
+
+const paymentKey = (paymentId: string) => `payments:${paymentId}`;
+// Payment ids per campaign, mapped to their creation time
+const campaignPaymentsKey = (slug: string) => `payments:campaign:${slug}`;
+// Privacy choices per destination tx hash (lowercased), for matching indexed
+// donations to the payments that made them
+const campaignPrivacyKey = (slug: string) => `payments:campaign:${slug}:privacy`;
+// Payment ids whose notes creators hid, mapped to true (null once shown again)
+const hiddenNotesKey = (slug: string) => `payments:campaign:${slug}:hidden-notes`;
+// Payers of verified, completed payments per destination tx hash (lowercased)
+const campaignPayersKey = (slug: string) => `payments:campaign:${slug}:payers`;
+// Referrals of verified, completed payments, by payment id
+const campaignReferralsKey = (slug: string) =>
+  `payments:campaign:${slug}:referrals`;
+// Lifecycle events received for a payment, oldest first
+const paymentEventsKey = (paymentId: string) => `payments:${paymentId}:events`;
+// Claim per delivered webhook event, taken with setIfAbsent so each is processed once
+const webhookEventKey = (paymentId: string, type: string) =>
+  `payments:${paymentId}:webhook:${type}`;
+
+export type PaymentEventEntry = {
+  status: PaymentStatus;
+  txHash: string | null;
+  /** Milliseconds since epoch */
+  receivedAt: number;
+};
+
+// Later lifecycle stages win over earlier ones, whatever order updates arrive in
+const STATUS_RANK: Record<PaymentStatus, number> = {
+  started: 0,
+  completed: 1,
+  bounced: 1,
+  refunded: 2,
+};
+
+/**
+ * Combine a stored payment with an update. Browser reports never change a
+ * payment Daimo Pay confirmed, and status never moves backwards.
+ */
+export function mergePaymentRecords(
+  existing: PaymentRecord | null,
+  update: PaymentRecord,
+): PaymentRecord {
+  if (!existing) return update;
+  if (existing.verified && !update.verified) return existing;
+
+  const createdAt = Math.min(existing.createdAt, update.createdAt);
+  const updatedAt = Math.max(existing.updatedAt, update.updatedAt);
+
+  if (update.verified && !existing.verified) {
+    // Daimo Pay's record replaces the browser's report, which only adds
+    // what the donor's browser alone knows
+    return {
+      ...update,
+      campaign: update.campaign ?? existing.campaign,
+      // The session's FID, not whatever the payer's client told Daimo
+      fid: existing.fid,
+      referrerFid: update.referrerFid ?? existing.referrerFid,
+      visibility: existing.visibility ?? update.visibility,
+      note: existing.note ?? update.note,
+      createdAt,
+      updatedAt,
+    };
+  }
+
+  // Both from the browser or both from Daimo Pay, arriving in any order.
+  // Payment ids end up in public links, so only the first browser report
+  // says who paid and how the donor is listed.
+  const isBrowserReport = !update.verified;
+  return {
+    ...update,
+    status:
+      STATUS_RANK[update.status] >= STATUS_RANK[existing.status]
+        ? update.status
+        : existing.status,
+    campaign: existing.campaign ?? update.campaign,
+    fid: isBrowserReport ? existing.fid : (existing.fid ?? update.fid),
+    referrerFid: existing.referrerFid ?? update.referrerFid,
+    visibility: isBrowserReport
+      ? existing.visibility
+      : (existing.visibility ?? update.visibility),
+    note: isBrowserReport ? existing.note : (existing.note ?? update.note),
+    destination: {
+      ...update.destination,
+      txHash: update.destination.txHash ?? existing.destination.txHash,
+    },
+    refund: update.refund ?? existing.refund,
+    createdAt,
+    updatedAt,
+    completedAt: existing.completedAt ?? update.completedAt,
+  };
+}
+
+/**
+ * Save a payment, merging it with what is already stored
+ * @returns the stored record
+ */
+export async function savePayment(record: PaymentRecord): Promise<PaymentRecord> {
+  const existing: PaymentRecord | null = await kv.get(
+    paymentKey(record.paymentId),
+  );
+  const merged = mergePaymentRecords(existing, record);
+  await kv.set(paymentKey(record.paymentId), merged);
+  if (merged.campaign) {
+    await kv.merge(campaignPaymentsKey(merged.campaign), {
+      [merged.paymentId]: merged.createdAt,
+    });
+  }
+  const txHash = merged.destination.txHash;
+  // Only Daimo Pay's word decides who made a donation, never the browser's
+  if (
+    merged.campaign &&
+    txHash &&
+    merged.verified &&
+    merged.status === "completed" &&
+    merged.payerAddress &&
+    isAddress(merged.payerAddress)
+  ) {
+    const { chainId, address, tokenAddress, tokenSymbol, amount } =
+      merged.destination;
+    const payer: DonationPayer = {
+      paymentId: merged.paymentId,
+      address: getAddress(merged.payerAddress),
+      amountUsd: merged.amountUsd,
+      destination: { chainId, address, tokenAddress, tokenSymbol, amount },
+      completedAt: merged.completedAt ?? merged.updatedAt,
+    };
+    await kv.merge(campaignPayersKey(merged.campaign), {
+      [txHash.toLowerCase()]: payer,
+    });
+  }
+  if (
+    merged.campaign &&
+    merged.verified &&
+    merged.status === "completed" &&
+    merged.referrerFid
+  ) {
+    const referral: DonationReferral = {
+      referrerFid: merged.referrerFid,
+      ...(merged.fid && { fid: merged.fid }),
+      amountUsd: merged.amountUsd,
+      completedAt: merged.completedAt ?? merged.updatedAt,
+    };
+    await kv.merge(campaignReferralsKey(merged.campaign), {
+      [merged.paymentId]: referral,
+    });
+  }
+  // Public listings only take choices from payments Daimo Pay confirmed,
+  // never from a browser report naming someone else's public tx hash
+  if (merged.campaign && txHash && merged.verified) {
+    const privacy: DonationPrivacy = {
+      paymentId: merged.paymentId,
+      visibility: merged.visibility ?? "farcaster",
+      ...(merged.note && { note: merged.note }),
+    };
+    await kv.merge(campaignPrivacyKey(merged.campaign), {
+      [txHash.toLowerCase()]: privacy,
+    });
+  }
+  return merged;
+}
+
+/**
+ * Look up a stored payment by its Daimo Pay id
+ */
+export async function getPayment(paymentId: string): Promise<PaymentRecord | null> {
+  return kv.get(paymentKey(paymentId));
+}
+
+/**
+ * All stored payments for a campaign, newest first
+ */
+export async function listCampaignPayments(slug: string): Promise<PaymentRecord[]> {
+  const index: Record<string, number> | null = await kv.get(
+    campaignPaymentsKey(slug),
+  );
+  const ids = Object.entries(index || {})
+    .sort(([, a], [, b]) => b - a)
+    .map(([id]) => id);
+  const payments = await Promise.all(ids.map((id) => getPayment(id)));
+  return payments.filter((payment): payment is PaymentRecord => !!payment);
+}
+
+/**
+ * Privacy choices of a campaign's donations, by lowercased tx hash. Each entry
+ * comes from the verified payment with that tx hash, without notes creators hid.
+ * Donations without an entry were not made with a choice and show the
+ * Farcaster profile.
+ */
+export async function getCampaignDonationPrivacy(
+  slug: string,
+): Promise<Record<string, DonationPrivacy>> {
+  const [privacy, hidden]: [Record<string, DonationPrivacy> | null, Set<string>] =
+    await Promise.all([kv.get(campaignPrivacyKey(slug)), getHiddenNotes(slug)]);
+  return Object.fromEntries(
+    Object.entries(privacy || {}).map(([txHash, { note, ...choice }]) => [
+      txHash,
+      note && !hidden.has(choice.paymentId) ? { ...choice, note } : choice,
+    ]),
+  );
+}
+
+/**
+ * Ids of the payments whose notes creators hid from the donor wall
+ */
+export async function getHiddenNotes(slug: string): Promise<Set<string>> {
+  const index: Record<string, true | null> | null = await kv.get(
+    hiddenNotesKey(slug),
+  );
+  return new Set(
+    Object.entries(index || {})
+      .filter(([, isHidden]) => isHidden)
+      .map(([paymentId]) => paymentId),
+  );
+}
+
+/**
+ * Hide a donor's note from the public listings, or show it again
+ */
+export async function setNoteHidden(
+  slug: string,
+  paymentId: string,
+  hidden: boolean,
+): Promise<void> {
+  await kv.merge(hiddenNotesKey(slug), { [paymentId]: hidden || null });
+}
+
+/**
+ * Payers of a campaign's verified payments, by lowercased destination tx hash
+ */
+export async function getCampaignDonationPayers(
+  slug: string,
+): Promise<Record<string, DonationPayer>> {
+  return (await kv.get(campaignPayersKey(slug))) || {};
+}
+
+/**
+ * Referrals of a campaign's verified, completed payments, by payment id
+ */
+export async function getCampaignReferrals(
+  slug: string,
+): Promise<Record<string, DonationReferral>> {
+  return (await kv.get(campaignReferralsKey(slug))) || {};
+}
+
+/**
+ * Add an entry to the payment's lifecycle history
+ */
+export async function appendPaymentEvent(
+  paymentId: string,
+  entry: PaymentEventEntry,
+): Promise<void> {
+  await kv.append(paymentEventsKey(paymentId), entry);
+}
+
+/**
+ * Lifecycle history of a payment, oldest first
+ */
+export async function getPaymentEvents(
+  paymentId: string,
+): Promise<PaymentEventEntry[]> {
+  return (await kv.get(paymentEventsKey(paymentId))) || [];
+}
+
+/**
+ * Claim a webhook event for processing. Daimo Pay retries deliveries,
+ * so only the first claim of a payment id and event type succeeds.
+ */
+export async function claimWebhookEvent(
+  paymentId: string,
+  type: string,
+): Promise<boolean> {
+  const key = webhookEventKey(paymentId, type);
+  // Claims released before kv had `del` were reset to 0 rather than removed
+  return (
+    (await kv.setIfAbsent(key, true)) || (await kv.compareAndSet(key, 0, true))
+  );
+}
+
+/**
+ * Give up a claim after processing failed, so a retried delivery is processed
+ */
+export async function releaseWebhookEvent(
+  paymentId: string,
+  type: string,
+): Promise<void> {
+  await kv.del(webhookEventKey(paymentId, type));
+}
@@ -0,0 +1,258 @@
+import type { DaimoPayment } from "@daimo/pay";
+import type { Address, Hex } from "viem";
+
+export type PaymentStatus = "started" | "completed" | "bounced" | "refunded";
+
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  "started",
+  "completed",
+  "bounced",
+  "refunded",
+];
+
+/**
+ * How a donor asked to be shown publicly: by Farcaster profile, by paying
+ * address only, or not at all
+ */
+export type DonorVisibility = "farcaster" | "address" | "anonymous";
+
+export const DONOR_VISIBILITIES: DonorVisibility[] = [
+  "farcaster",
+  "address",
+  "anonymous",
+];
+
+export const MAX_NOTE_LENGTH = 280;
+
+/** A note left with a donation. Private notes are only shown to creators. */
+export type DonorNote = {
+  text: string;
+  isPublic: boolean;
+};
+
+/** What the public listings need to know about a donation's payment */
+export type DonationPrivacy = {
+  paymentId: string;
+  visibility: DonorVisibility;
+  note?: DonorNote;
+};
+
+/**
+ * Who made an onchain donation, from the verified payment that delivered it.
+ * Daimo Pay delivers funds from its own contracts, so the Transfer log's
+ * sender is not the donor.
+ */
+export type DonationPayer = {
+  paymentId: string;
+  /** The address the payer paid from */
+  address: Address;
+  /** USD value Daimo Pay reported, e.g. "10.00" */
+  amountUsd: string;
+  /**
+   * Where the funds landed. Native tokens leave no Transfer log, so their
+   * donations are only known from here.
+   */
+  destination: Pick<
+    PaymentRecord["destination"],
+    "chainId" | "address" | "tokenAddress" | "tokenSymbol" | "amount"
+  >;
+  /** Milliseconds since epoch */
+  completedAt: number;
+};
+
+/** A verified, completed payment that came in through someone's shared link */
+export type DonationReferral = {
+  referrerFid: number;
+  /** The payer, when known, so self-referrals can be left out */
+  fid?: number;
+  /** USD value Daimo Pay reported, e.g. "10.00" */
+  amountUsd: string;
+  /** Milliseconds since epoch */
+  completedAt: number;
+};
+
+/**
+ * A Daimo Pay payment as we keep it: where the money came from, where it
+ * landed and who sent it
+ */
+export type PaymentRecord = {
+  paymentId: string;
+  status: PaymentStatus;
+  /** Slug of the campaign the payment was made to */
+  campaign?: string;
+  /**
+   * Farcaster user who made the payment, when known: from the Quick Auth
+   * session of the payment's first browser report, never from Daimo metadata
+   */
+  fid?: number;
+  /** Farcaster user whose shared link brought the payer here */
+  referrerFid?: number;
+  /** How the donor asked to be listed; by Farcaster profile when unset */
+  visibility?: DonorVisibility;
+  note?: DonorNote;
+  payerAddress: string | null;
+  source: {
+    chainId: number;
+    tokenAddress: string;
+    tokenSymbol: string;
+    /** Decimal amount the payer sent, e.g. "10.02" */
+    amount: string;
+    txHash: string | null;
+  } | null;
+  destination: {
+    chainId: number;
+    address: Address;
+    tokenAddress: Address;
+    tokenSymbol: string;
+    /** Decimal amount delivered to the recipient, e.g. "10" */
+    amount: string;
+    txHash: Hex | null;
+  };
+  /** Set when Daimo Pay returned the funds to the payer */
+  refund?: {
+    address: Address;
+    chainId: number;
+    tokenAddress: Address;
+    /** Decimal amount refunded */
+    amount: string;
+    txHash: Hex;
+  };
+  /** USD value of the payment, e.g. "10.00" */
+  amountUsd: string;
+  /**
+   * True once the payment was confirmed by Daimo Pay rather than the browser.
+   * Anyone can post an unverified record with any status, amount and
+   * referrer, so unverified records must not feed public listings, totals,
+   * rankings or anything that moves money or reminders.
+   */
+  verified: boolean;
+  /** Milliseconds since epoch */
+  createdAt: number;
+  updatedAt: number;
+  /** When the completed event was seen, in milliseconds since epoch */
+  completedAt?: number;
+};
+
+/**
+ * How a payment's donor may be shown. Payments made before donors could
+ * choose show the Farcaster profile, as they always did.
+ */
+export function getDonorVisibility(payment: PaymentRecord): DonorVisibility {
+  return payment.visibility ?? "farcaster";
+}
+
+/**
+ * A payment as anyone who knows its id may see it: without private notes,
+ * and without the identities the donor chose to hide
+ */
+export function toPublicPayment(payment: PaymentRecord): PaymentRecord {
+  const visibility = getDonorVisibility(payment);
+  const { fid, note, payerAddress, source, ...rest } = payment;
+  return {
+    ...rest,
+    ...(visibility === "farcaster" && { fid }),
+    ...(note?.isPublic && { note }),
+    payerAddress: visibility === "anonymous" ? null : payerAddress,
+    source: visibility === "anonymous" ? null : source,
+  };
+}
+
+/**
+ * The parts of a Daimo Pay event we read; matches both the button callbacks
+ * and webhook payloads
+ */
+export type DaimoPaymentEvent = {
+  type: string;
+  paymentId: string;
+  chainId?: number;
+  txHash: string | null;
+  payment: DaimoPayment;
+  /** Only on payment_refunded */
+  refundAddress?: Address;
+  tokenAddress?: Address;
+  amountUnits?: string;
+};
+
+const EVENT_STATUSES: Record<string, PaymentStatus> = {
+  payment_started: "started",
+  payment_completed: "completed",
+  payment_bounced: "bounced",
+  payment_refunded: "refunded",
+};
+
+/**
+ * Map a Daimo Pay event type like "payment_completed" to a status
+ */
+export function getEventStatus(type: string): PaymentStatus | undefined {
+  return EVENT_STATUSES[type];
+}
+
+/**
+ * Build a payment record from a Daimo Pay event
+ */
+export function toPaymentRecord(
+  event: DaimoPaymentEvent,
+  extra: Pick<
+    PaymentRecord,
+    "campaign" | "fid" | "referrerFid" | "visibility" | "note"
+  > & {
+    verified?: boolean;
+  } = {},
+): PaymentRecord {
+  const { payment } = event;
+  const status = getEventStatus(event.type) || "started";
+  const now = Date.now();
+  const metadataReferrerFid = Number(payment.metadata?.referrerFid);
+  const metadataVisibility = DONOR_VISIBILITIES.find(
+    (visibility) => visibility === payment.metadata?.visibility,
+  );
+  // Daimo reports createdAt in seconds
+  const createdAt = Number(payment.createdAt);
+
+  return {
+    paymentId: event.paymentId,
+    status,
+    campaign: extra.campaign ?? payment.metadata?.campaign ?? undefined,
+    // Metadata is written by the payer's client, so it can't say who paid
+    fid: extra.fid,
+    referrerFid:
+      extra.referrerFid ??
+      (metadataReferrerFid > 0 ? metadataReferrerFid : undefined),
+    visibility: extra.visibility ?? metadataVisibility,
+    note: extra.note,
+    payerAddress: payment.source?.payerAddress ?? null,
+    source: payment.source && {
+      chainId: Number(payment.source.chainId),
+      tokenAddress: payment.source.tokenAddress,
+      tokenSymbol: payment.source.tokenSymbol,
+      amount: payment.source.amountUnits,
+      txHash: payment.source.txHash,
+    },
+    destination: {
+      chainId: Number(payment.destination.chainId),
+      address: payment.destination.destinationAddress,
+      tokenAddress: payment.destination.tokenAddress,
+      tokenSymbol: payment.destination.tokenSymbol,
+      amount: payment.destination.amountUnits,
+      // Completed events carry the destination tx hash
+      txHash:
+        payment.destination.txHash ??
+        (status === "completed" ? (event.txHash as Hex | null) : null),
+    },
+    refund:
+      status === "refunded" && event.refundAddress
+        ? {
+            address: event.refundAddress,
+            chainId: event.chainId ?? Number(payment.destination.chainId),
+            tokenAddress: event.tokenAddress!,
+            amount: event.amountUnits!,
+            txHash: event.txHash as Hex,
+          }
+        : undefined,
+    amountUsd: payment.display.paymentValue,
+    verified: extra.verified ?? false,
+    createdAt: createdAt > 0 ? createdAt * 1000 : now,
+    updatedAt: now,
+    completedAt: status === "completed" ? now : undefined,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Just enough PDF to lay out text on a single page with the built-in
+ * Helvetica fonts, so documents render on the server without extra services.
+ */
+
+export type PdfText = {
+  text: string;
+  /** Points from the left edge */
+  x: number;
+  /** Points from the top edge */
+  y: number;
+  size: number;
+  bold?: boolean;
+};
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+/**
+ * The standard fonts only cover Latin-1, so anything else becomes "?"
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/gu, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Split text into lines of at most `maxChars`, breaking at spaces when possible
+ */
+export function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const space = rest.lastIndexOf(" ", maxChars);
+    const cut = space > 0 ? space : maxChars;
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+  lines.push(rest);
+  return lines;
+}
+
+/**
+ * Render a one-page PDF with the given text runs
+ */
+export function renderTextPdf(texts: PdfText[]): Uint8Array {
+  const content = texts
+    .map(
+      ({ text, x, y, size, bold }) =>
+        `BT /${bold ? "F2" : "F1"} ${size} Tf ${x} ${PAGE_HEIGHT - y} Td (${escapePdfText(text)}) Tj ET`,
+    )
+    .join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Every character is a single latin1 byte, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"));
+}
@@ -0,0 +1,251 @@
+import { randomUUID } from "crypto";
+import { getAssetKey, type Campaign, type CampaignAsset } from "~/lib/campaigns";
+import { kv } from "~/lib/kv";
+import type { PaymentRecord } from "~/lib/payments";
+
+export type PledgeCadence = "weekly" | "monthly";
+
+export const PLEDGE_CADENCES: PledgeCadence[] = ["weekly", "monthly"];
+
+export type Pledge = {
+  id: string;
+  fid: number;
+  campaign: string;
+  /** Asset key, e.g. "8453:0x8335..." */
+  asset: string;
+  /** Decimal amount in the asset, e.g. "10" */
+  amount: string;
+  cadence: PledgeCadence;
+  status: "active" | "cancelled";
+  /** When the next donation is due, in milliseconds since epoch */
+  nextDueAt: number;
+  /** Due date the last reminder was sent for, so each period is reminded once */
+  remindedForDueAt?: number;
+  lastFulfilledAt?: number;
+  /** Payments that fulfilled a period, newest last */
+  fulfilledPaymentIds: string[];
+  createdAt: number;
+};
+
+const pledgeKey = (id: string) => `pledges:${id}`;
+// Pledge ids per user, mapped to true (null once cancelled)
+const fidPledgesKey = (fid: number) => `pledges:fid:${fid}`;
+// Active pledge ids mapped to their next due date
+const activePledgesKey = "pledges:active";
+// Pledge id a payment fulfilled, so one payment covers a single pledge
+const pledgePaymentKey = (paymentId: string) => `pledges:payment:${paymentId}`;
+
+/**
+ * Move a timestamp by whole periods (negative to go back). Monthly steps keep
+ * the day of month, falling back to the last day of shorter months.
+ */
+export function addCadence(
+  timestamp: number,
+  cadence: PledgeCadence,
+  periods = 1,
+): number {
+  const date = new Date(timestamp);
+  if (cadence === "weekly") {
+    date.setUTCDate(date.getUTCDate() + 7 * periods);
+    return date.getTime();
+  }
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + periods);
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  return date.getTime();
+}
+
+/**
+ * Create a pledge. When it is made together with a donation that covers it
+ * (see `paymentFulfillsPledge`), the current period counts as fulfilled and
+ * the next one is due a period from now. A donation Daimo Pay has not
+ * confirmed yet leaves the pledge due now, for the webhook to fulfill.
+ */
+export async function createPledge({
+  fid,
+  campaign,
+  asset,
+  amount,
+  cadence,
+  initialPayment,
+}: {
+  fid: number;
+  campaign: Campaign;
+  asset: CampaignAsset;
+  amount: string;
+  cadence: PledgeCadence;
+  initialPayment?: PaymentRecord;
+}): Promise<Pledge> {
+  const now = Date.now();
+  let pledge: Pledge = {
+    id: randomUUID(),
+    fid,
+    campaign: campaign.slug,
+    asset: getAssetKey(asset),
+    amount,
+    cadence,
+    status: "active",
+    nextDueAt: now,
+    fulfilledPaymentIds: [],
+    createdAt: now,
+  };
+  if (
+    initialPayment &&
+    paymentFulfillsPledge(pledge, initialPayment) &&
+    (await claimPledgePayment(initialPayment.paymentId, pledge.id))
+  ) {
+    pledge = applyPledgePayment(pledge, initialPayment);
+  }
+  await savePledge(pledge);
+  await kv.merge(fidPledgesKey(fid), { [pledge.id]: true });
+  return pledge;
+}
+
+async function savePledge(pledge: Pledge) {
+  await kv.set(pledgeKey(pledge.id), pledge);
+  await kv.merge(activePledgesKey, {
+    [pledge.id]: pledge.status === "active" ? pledge.nextDueAt : null,
+  });
+}
+
+export async function getPledge(id: string): Promise<Pledge | null> {
+  return kv.get(pledgeKey(id));
+}
+
+/**
+ * Active pledges of a user, soonest due first
+ */
+export async function listPledges(fid: number): Promise<Pledge[]> {
+  const index: Record<string, boolean | null> | null = await kv.get(
+    fidPledgesKey(fid),
+  );
+  const ids = Object.keys(index || {}).filter((id) => index?.[id]);
+  const pledges = await Promise.all(ids.map(getPledge));
+  return pledges
+    .filter((pledge): pledge is Pledge => pledge?.status === "active")
+    .sort((a, b) => a.nextDueAt - b.nextDueAt);
+}
+
+/**
+ * Cancel a pledge owned by `fid`
+ * @returns false when the pledge does not exist or belongs to someone else
+ */
+export async function cancelPledge(id: string, fid: number): Promise<boolean> {
+  const pledge = await getPledge(id);
+  if (!pledge || pledge.fid !== fid) return false;
+  await savePledge({ ...pledge, status: "cancelled" });
+  await kv.merge(fidPledgesKey(fid), { [id]: null });
+  return true;
+}
+
+/**
+ * Active pledges that are due and have not been reminded for this period
+ */
+export async function getDuePledges(now = Date.now()): Promise<Pledge[]> {
+  const index: Record<string, number | null> | null = await kv.get(
+    activePledgesKey,
+  );
+  const dueIds = Object.entries(index || {})
+    .filter(([, dueAt]) => dueAt !== null && dueAt <= now)
+    .map(([id]) => id);
+  const pledges = await Promise.all(dueIds.map(getPledge));
+  return pledges.filter(
+    (pledge): pledge is Pledge =>
+      pledge?.status === "active" &&
+      pledge.nextDueAt <= now &&
+      pledge.remindedForDueAt !== pledge.nextDueAt,
+  );
+}
+
+export async function markPledgeReminded(pledge: Pledge): Promise<void> {
+  await savePledge({ ...pledge, remindedForDueAt: pledge.nextDueAt });
+}
+
+/**
+ * Whether a completed payment covers the pledge's current period: confirmed
+ * by Daimo Pay, same user, campaign and asset, at least the pledged amount,
+ * made no earlier than one period before the due date
+ */
+export function paymentFulfillsPledge(
+  pledge: Pledge,
+  payment: PaymentRecord,
+): boolean {
+  if (!payment.verified || payment.status !== "completed") return false;
+  if (payment.fid !== pledge.fid) return false;
+  if (payment.campaign !== pledge.campaign) return false;
+  if (pledge.fulfilledPaymentIds.includes(payment.paymentId)) return false;
+
+  const asset = getAssetKey({
+    chainId: payment.destination.chainId,
+    address: payment.destination.tokenAddress,
+  });
+  if (asset !== pledge.asset) return false;
+  if (Number(payment.destination.amount) < Number(pledge.amount)) return false;
+
+  const paidAt = payment.completedAt ?? payment.updatedAt;
+  return paidAt >= addCadence(pledge.nextDueAt, pledge.cadence, -1);
+}
+
+/**
+ * Mark the payer's first matching pledge fulfilled for this period and move
+ * its due date past the payment. Browser reports could postpone anyone's
+ * reminders, so only payments confirmed by Daimo Pay count.
+ * @returns the pledge that was fulfilled, if any
+ */
+export async function fulfillPledges(payment: PaymentRecord): Promise<Pledge[]> {
+  if (!payment.fid || !payment.verified || payment.status !== "completed") {
+    return [];
+  }
+
+  for (const pledge of await listPledges(payment.fid)) {
+    if (!paymentFulfillsPledge(pledge, payment)) continue;
+    if (!(await claimPledgePayment(payment.paymentId, pledge.id))) return [];
+
+    const updated = applyPledgePayment(pledge, payment);
+    await savePledge(updated);
+    return [updated];
+  }
+  return [];
+}
+
+/**
+ * Claim a payment for a pledge
+ * @returns false when the payment already covers another pledge
+ */
+async function claimPledgePayment(
+  paymentId: string,
+  pledgeId: string,
+): Promise<boolean> {
+  return kv.setIfAbsent(pledgePaymentKey(paymentId), pledgeId);
+}
+
+// Count the payment for the current period and move the due date past it
+function applyPledgePayment(pledge: Pledge, payment: PaymentRecord): Pledge {
+  const paidAt = payment.completedAt ?? payment.updatedAt;
+  let nextDueAt = addCadence(pledge.nextDueAt, pledge.cadence);
+  while (nextDueAt <= paidAt) {
+    nextDueAt = addCadence(nextDueAt, pledge.cadence);
+  }
+  return {
+    ...pledge,
+    nextDueAt,
+    lastFulfilledAt: paidAt,
+    fulfilledPaymentIds: [...pledge.fulfilledPaymentIds, payment.paymentId],
+  };
+}
+
+/**
+ * Campaign page with the pledged amount and asset preselected
+ */
+export function getPledgeDonatePath(pledge: Pledge): string {
+  const params = new URLSearchParams({
+    pledge: pledge.id,
+    amount: pledge.amount,
+    asset: pledge.asset,
+  });
+  return `/campaign/${pledge.campaign}?${params}`;
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+import type { Campaign } from "~/lib/campaigns";
+import { appUrl } from "~/lib/frame-metadata";
+import { kv } from "~/lib/kv";
+import {
+  sendNotifications,
+  type SendNotificationResult,
+} from "~/lib/notifications";
+import type { ProjectUpdate } from "~/lib/project-updates";
+
+// Updates per campaign, id mapped to the update (null once removed)
+const updatesKey = (campaign: Campaign) => `updates:${campaign.slug}`;
+
+export async function createProjectUpdate(
+  campaign: Campaign,
+  {
+    title,
+    body,
+    photos,
+  }: Pick<ProjectUpdate, "title" | "body" | "photos">,
+): Promise<ProjectUpdate> {
+  const update: ProjectUpdate = {
+    id: randomUUID(),
+    campaign: campaign.slug,
+    title,
+    body,
+    photos,
+    createdAt: Date.now(),
+  };
+  await kv.merge(updatesKey(campaign), { [update.id]: update });
+  return update;
+}
+
+/**
+ * A campaign's updates, newest first
+ */
+export async function listProjectUpdates(
+  campaign: Campaign,
+): Promise<ProjectUpdate[]> {
+  const stored: Record<string, ProjectUpdate | null> | null = await kv.get(
+    updatesKey(campaign),
+  );
+  return Object.values(stored || {})
+    .filter((update): update is ProjectUpdate => update !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Tell everyone who enabled notifications about a new update
+ * @returns how many sends ended with each result
+ */
+export async function notifyProjectUpdate(
+  campaign: Campaign,
+  update: ProjectUpdate,
+): Promise<Partial<Record<SendNotificationResult, number>>> {
+  const { results } = await sendNotifications("all", {
+    notificationId: `update-${update.id}`,
+    category: "updates",
+    title: update.title,
+    body: `${campaign.title}: ${update.body}`,
+    targetUrl: `${appUrl}/campaign/${campaign.slug}`,
+  });
+  return results;
+}
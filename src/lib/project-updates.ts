@@ -0,0 +1,12 @@
+/** A progress post from the campaign creator, e.g. "Drilling started" */
+export type ProjectUpdate = {
+  id: string;
+  campaign: string;
+  title: string;
+  body: string;
+  /** Public URLs of photos uploaded through /api/upload */
+  photos: string[];
+  createdAt: number;
+};
+
+export const MAX_UPDATE_PHOTOS = 10;
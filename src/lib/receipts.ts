@@ -0,0 +1,191 @@
+import { getCampaign, localizeCampaign } from "~/lib/campaigns";
+import { getChainById } from "~/lib/chains";
+import { findDonorProfile } from "~/lib/donation-share";
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatDate,
+  type Locale,
+} from "~/lib/i18n";
+import type { FarcasterUser } from "~/lib/neynar";
+import { getPayment } from "~/lib/payment-store";
+import { getDonorVisibility } from "~/lib/payments";
+import { renderTextPdf, wrapText, type PdfText } from "~/lib/pdf";
+
+export type Receipt = {
+  /** Receipt number, the Daimo Pay payment id */
+  id: string;
+  campaign: { slug: string; title: string };
+  recipient: string;
+  donor: {
+    fid?: number;
+    username?: string;
+    displayName?: string;
+    address: string | null;
+  };
+  amount: string;
+  tokenSymbol: string;
+  tokenAddress: string;
+  chain: { id: number; name: string };
+  txHash: string | null;
+  txUrl: string | null;
+  /** When the donation completed, in milliseconds since epoch */
+  timestamp: number;
+};
+
+/**
+ * Build the receipt for a completed payment. Receipt links are as public as
+ * share links, so the donor is shown only as they chose to be listed.
+ * Browser reports can name any donor and amount, so only payments confirmed
+ * by Daimo Pay get a receipt.
+ * @param locale - Language of the campaign title
+ * @returns null when the payment is unknown, unconfirmed or has not completed
+ */
+export async function getReceipt(
+  paymentId: string,
+  locale: Locale = DEFAULT_LOCALE,
+  apiKey: string | undefined = process.env.NEYNAR_API_KEY,
+): Promise<Receipt | null> {
+  const payment = await getPayment(paymentId);
+  if (!payment?.verified || payment.status !== "completed") return null;
+
+  const campaign = payment.campaign ? getCampaign(payment.campaign) : undefined;
+  const visibility = getDonorVisibility(payment);
+  let profile: FarcasterUser | undefined;
+  if (apiKey && visibility === "farcaster") {
+    profile = await findDonorProfile(payment, apiKey).catch((error) => {
+      console.error("Failed to resolve donor profile", error);
+      return undefined;
+    });
+  }
+
+  const { destination } = payment;
+  const chain = getChainById(destination.chainId);
+  const explorerUrl = chain.blockExplorers?.default.url;
+
+  return {
+    id: payment.paymentId,
+    campaign: {
+      slug: campaign?.slug ?? payment.campaign ?? "",
+      title: campaign
+        ? localizeCampaign(campaign, locale).title
+        : createTranslator(locale)("receipt.donation"),
+    },
+    recipient: destination.address,
+    donor: {
+      fid: visibility === "farcaster" ? (profile?.fid ?? payment.fid) : undefined,
+      username: profile?.username,
+      displayName: profile?.display_name,
+      address: visibility === "anonymous" ? null : payment.payerAddress,
+    },
+    amount: destination.amount,
+    tokenSymbol: destination.tokenSymbol,
+    tokenAddress: destination.tokenAddress,
+    chain: { id: destination.chainId, name: chain.name },
+    txHash: destination.txHash,
+    txUrl:
+      explorerUrl && destination.txHash
+        ? `${explorerUrl}/tx/${destination.txHash}`
+        : null,
+    timestamp: payment.completedAt ?? payment.updatedAt,
+  };
+}
+
+/**
+ * Whether the payment was reported by the donor's browser and gets a receipt
+ * once Daimo Pay confirms it
+ */
+export async function isReceiptPending(paymentId: string): Promise<boolean> {
+  const payment = await getPayment(paymentId);
+  return (
+    !!payment &&
+    !payment.verified &&
+    (payment.status === "started" || payment.status === "completed")
+  );
+}
+
+/**
+ * Label/value rows shown on both the HTML and the PDF receipt
+ */
+export function getReceiptRows(
+  receipt: Receipt,
+  locale: Locale,
+): [string, string][] {
+  const t = createTranslator(locale);
+  const { donor } = receipt;
+  const donorLabel = donor.username
+    ? `@${donor.username}${donor.fid ? ` (${t("receipt.fid", { fid: donor.fid })})` : ""}`
+    : donor.fid
+      ? t("receipt.fid", { fid: donor.fid })
+      : donor.address || t("receipt.anonymous");
+
+  const rows: [string, string][] = [
+    [t("receipt.rows.number"), receipt.id],
+    [
+      t("receipt.rows.date"),
+      formatDate(receipt.timestamp, locale, {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+        timeZone: "UTC",
+        timeZoneName: "short",
+      }),
+    ],
+    [t("receipt.rows.campaign"), receipt.campaign.title],
+    [t("receipt.rows.donor"), donorLabel],
+  ];
+  if (donor.address && donorLabel !== donor.address) {
+    rows.push([t("receipt.rows.donorAddress"), donor.address]);
+  }
+  rows.push(
+    [t("receipt.rows.amount"), `${receipt.amount} ${receipt.tokenSymbol}`],
+    [
+      t("receipt.rows.token"),
+      `${receipt.tokenSymbol} (${receipt.tokenAddress})`,
+    ],
+    [t("receipt.rows.chain"), `${receipt.chain.name} (${receipt.chain.id})`],
+    [t("receipt.rows.recipient"), receipt.recipient],
+    [t("receipt.rows.transaction"), receipt.txHash || t("receipt.txPending")],
+    [t("receipt.rows.status"), t("receipt.confirmed")],
+  );
+  return rows;
+}
+
+/**
+ * Render a receipt as a one-page PDF
+ */
+export function renderReceiptPdf(receipt: Receipt, locale: Locale): Uint8Array {
+  const t = createTranslator(locale);
+  const texts: PdfText[] = [
+    { text: t("receipt.title"), x: 50, y: 70, size: 22, bold: true },
+    { text: receipt.campaign.title, x: 50, y: 96, size: 13 },
+  ];
+
+  let y = 140;
+  for (const [label, value] of getReceiptRows(receipt, locale)) {
+    texts.push({ text: label, x: 50, y, size: 10, bold: true });
+    for (const line of wrapText(value, 68)) {
+      texts.push({ text: line, x: 170, y, size: 10 });
+      y += 14;
+    }
+    y += 8;
+  }
+
+  if (receipt.txUrl) {
+    texts.push({
+      text: t("receipt.verifyOnchain"),
+      x: 50,
+      y: y + 10,
+      size: 9,
+      bold: true,
+    });
+    wrapText(receipt.txUrl, 90).forEach((line, i) => {
+      texts.push({ text: line, x: 50, y: y + 24 + i * 12, size: 9 });
+    });
+  }
+
+  return renderTextPdf(texts);
+}
@@ -0,0 +1,98 @@
+import type { Campaign } from "~/lib/campaigns";
+import { getAllDonations } from "~/lib/donation-indexer";
+import { getDonationUsdValue, summarizeDonations } from "~/lib/donations";
+import { summarizeLedger, type LedgerDisbursement } from "~/lib/ledger";
+import { getLedgerEntries } from "~/lib/ledger-store";
+
+/** Running totals at the end of a month, e.g. "2025-03" */
+export type FundsPoint = {
+  month: string;
+  raised: number;
+  spent: number;
+};
+
+export type TransparencyReport = {
+  /** Donations received, in USD */
+  raised: number;
+  /** USD sponsors owe through matching pools, which has not arrived yet */
+  pledged: number;
+  spent: number;
+  /** Donations received minus spending */
+  remaining: number;
+  disbursements: LedgerDisbursement[];
+  series: FundsPoint[];
+};
+
+const monthOf = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 7);
+
+/**
+ * Cumulative money in and out per month, from the first month with either
+ * up to `now`
+ */
+export function buildFundsSeries(
+  donations: { usd: number; timestamp: number }[],
+  disbursements: LedgerDisbursement[],
+  now = Date.now(),
+): FundsPoint[] {
+  const raisedByMonth = new Map<string, number>();
+  for (const donation of donations) {
+    const month = monthOf(donation.timestamp * 1000);
+    raisedByMonth.set(month, (raisedByMonth.get(month) || 0) + donation.usd);
+  }
+  const spentByMonth = new Map<string, number>();
+  for (const disbursement of disbursements) {
+    if (disbursement.voidedBy) continue;
+    const month = monthOf(new Date(disbursement.paidAt).getTime());
+    spentByMonth.set(month, (spentByMonth.get(month) || 0) + disbursement.amountUsd);
+  }
+
+  const months = [...raisedByMonth.keys(), ...spentByMonth.keys()].sort();
+  if (months.length === 0) return [];
+
+  const series: FundsPoint[] = [];
+  const cursor = new Date(`${months[0]}-01T00:00:00Z`);
+  const lastMonth = monthOf(now);
+  let raised = 0;
+  let spent = 0;
+  while (monthOf(cursor.getTime()) <= lastMonth) {
+    const month = monthOf(cursor.getTime());
+    raised += raisedByMonth.get(month) || 0;
+    spent += spentByMonth.get(month) || 0;
+    series.push({
+      month,
+      raised: Math.round(raised * 100) / 100,
+      spent: Math.round(spent * 100) / 100,
+    });
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return series;
+}
+
+/**
+ * Money in and out of a campaign for the /transparency page
+ */
+export async function getTransparencyReport(
+  campaign: Campaign,
+): Promise<TransparencyReport> {
+  const [donations, entries] = await Promise.all([
+    getAllDonations(campaign),
+    getLedgerEntries(campaign),
+  ]);
+  const progress = summarizeDonations(donations, campaign);
+  const { disbursements, spent } = summarizeLedger(entries);
+
+  return {
+    raised: progress.raised,
+    pledged: progress.matched,
+    spent,
+    remaining: Math.round((progress.raised - spent) * 100) / 100,
+    disbursements,
+    series: buildFundsSeries(
+      donations.map((donation) => ({
+        usd: getDonationUsdValue(donation, campaign),
+        timestamp: donation.timestamp,
+      })),
+      disbursements,
+    ),
+  };
+}
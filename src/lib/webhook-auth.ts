@@ -0,0 +1,19 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+/**
+ * Check the `Authorization` header of a Daimo Pay webhook delivery. Daimo Pay
+ * sends `Basic <token>`, with the token it issued when the webhook was
+ * created. Digests are compared so the check takes the same time whatever
+ * the header's length or content.
+ */
+export function verifyWebhookAuthorization(
+  authorization: string | null,
+  token: string,
+): boolean {
+  if (!authorization) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(authorization.trim()),
+    digest(`Basic ${token}`),
+  );
+}
@@ -0,0 +1,228 @@
+-- Key-value store behind src/lib/kv.ts. Every function takes the project id
+-- as `pid`, so several apps can share one table. Keys with a TTL read as
+-- missing once `expires_at` has passed.
+
+create table if not exists kv (
+  pid text not null,
+  k text not null,
+  v jsonb,
+  expires_at timestamptz,
+  primary key (pid, k)
+);
+
+alter table kv add column if not exists expires_at timestamptz;
+
+-- Reached only through the functions below
+alter table kv enable row level security;
+
+-- kv_set gains an optional `ttl`; drop the three-argument version so calls
+-- without it are not ambiguous
+drop function if exists kv_set(text, text, jsonb);
+
+create or replace function kv_get(pid text, k text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select t.v
+  from kv t
+  where t.pid = kv_get.pid
+    and t.k = kv_get.k
+    and (t.expires_at is null or t.expires_at > now());
+$$;
+
+-- A set without `ttl` clears any earlier expiry
+create or replace function kv_set(
+  pid text,
+  k text,
+  v jsonb,
+  ttl integer default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into kv as t (pid, k, v, expires_at)
+  values (
+    kv_set.pid,
+    kv_set.k,
+    kv_set.v,
+    now() + make_interval(secs => kv_set.ttl)
+  )
+  on conflict (pid, k) do update
+    set v = excluded.v, expires_at = excluded.expires_at;
+$$;
+
+-- Counts from 0 when the key is missing, keeping a live key's expiry
+create or replace function kv_incr(pid text, k text, delta integer)
+returns integer
+language sql
+security definer
+set search_path = public
+as $$
+  insert into kv as t (pid, k, v)
+  values (kv_incr.pid, kv_incr.k, to_jsonb(kv_incr.delta))
+  on conflict (pid, k) do update
+    set v = case
+        when t.expires_at <= now() then excluded.v
+        else to_jsonb(coalesce((t.v #>> '{}')::integer, 0) + kv_incr.delta)
+      end,
+      expires_at = case when t.expires_at <= now() then null else t.expires_at end
+  returning (t.v #>> '{}')::integer;
+$$;
+
+-- Starts a new array when the key is missing or not an array
+create or replace function kv_append(pid text, k text, elem jsonb)
+returns jsonb
+language sql
+security definer
+set search_path = public
+as $$
+  insert into kv as t (pid, k, v)
+  values (kv_append.pid, kv_append.k, jsonb_build_array(kv_append.elem))
+  on conflict (pid, k) do update
+    set v = case
+        when t.expires_at <= now() or jsonb_typeof(t.v) is distinct from 'array'
+          then excluded.v
+        else t.v || excluded.v
+      end,
+      expires_at = case when t.expires_at <= now() then null else t.expires_at end
+  returning t.v;
+$$;
+
+-- Shallow merge; keys set to null in `patch` are stored as null
+create or replace function kv_merge(pid text, k text, patch jsonb)
+returns jsonb
+language sql
+security definer
+set search_path = public
+as $$
+  insert into kv as t (pid, k, v)
+  values (kv_merge.pid, kv_merge.k, kv_merge.patch)
+  on conflict (pid, k) do update
+    set v = case
+        when t.expires_at <= now() or jsonb_typeof(t.v) is distinct from 'object'
+          then excluded.v
+        else t.v || excluded.v
+      end,
+      expires_at = case when t.expires_at <= now() then null else t.expires_at end
+  returning t.v;
+$$;
+
+-- Whether a live key existed
+create or replace function kv_del(pid text, k text)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with deleted as (
+    delete from kv t
+    where t.pid = kv_del.pid and t.k = kv_del.k
+    returning t.expires_at
+  )
+  select exists (
+    select 1 from deleted d where d.expires_at is null or d.expires_at > now()
+  );
+$$;
+
+-- `{ keys, cursor }` with at most `lim` keys after `cursor` in byte order;
+-- `cursor` is null on the last page
+create or replace function kv_list(
+  pid text,
+  prefix text,
+  cursor text,
+  lim integer
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with page as (
+    select t.k, row_number() over (order by t.k collate "C") as n
+    from kv t
+    where t.pid = kv_list.pid
+      and starts_with(t.k, kv_list.prefix)
+      and (kv_list.cursor is null or t.k collate "C" > kv_list.cursor)
+      and (t.expires_at is null or t.expires_at > now())
+    order by t.k collate "C"
+    limit kv_list.lim + 1
+  )
+  select jsonb_build_object(
+    'keys',
+    coalesce(
+      jsonb_agg(page.k order by page.n) filter (where page.n <= kv_list.lim),
+      '[]'::jsonb
+    ),
+    'cursor',
+    case
+      when count(*) > kv_list.lim
+        then max(page.k collate "C") filter (where page.n <= kv_list.lim)
+    end
+  )
+  from page;
+$$;
+
+-- Writes only when the key is missing or expired, in one statement so two
+-- callers can't both succeed
+create or replace function kv_set_if_absent(
+  pid text,
+  k text,
+  v jsonb,
+  ttl integer default null
+)
+returns boolean
+language sql
+security definer
+set search_path = public
+as $$
+  with written as (
+    insert into kv as t (pid, k, v, expires_at)
+    values (
+      kv_set_if_absent.pid,
+      kv_set_if_absent.k,
+      kv_set_if_absent.v,
+      now() + make_interval(secs => kv_set_if_absent.ttl)
+    )
+    on conflict (pid, k) do update
+      set v = excluded.v, expires_at = excluded.expires_at
+      where t.expires_at <= now()
+    returning 1
+  )
+  select exists (select 1 from written);
+$$;
+
+-- Writes only while the stored value equals `expected`, where null means
+-- missing, and returns whether it did
+create or replace function kv_compare_and_set(
+  pid text,
+  k text,
+  expected jsonb,
+  v jsonb,
+  ttl integer default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if expected is null or expected = 'null'::jsonb then
+    return kv_set_if_absent(pid, k, v, ttl);
+  end if;
+
+  update kv t
+  set v = kv_compare_and_set.v,
+    expires_at = now() + make_interval(secs => kv_compare_and_set.ttl)
+  where t.pid = kv_compare_and_set.pid
+    and t.k = kv_compare_and_set.k
+    and t.v = kv_compare_and_set.expected
+    and (t.expires_at is null or t.expires_at > now());
+  return found;
+end;
+$$;